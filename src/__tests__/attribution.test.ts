@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import { attributeCoverage, summarizeAttribution, formatAttributionSummary } from '../attribution.js'
+import { smartMergeCoverage } from '../smart-merge.js'
+import type { CoverageMapData, FileCoverageData } from 'istanbul-lib-coverage'
+
+function fileCoverage(s: number[], f: number[], b: number[][]): FileCoverageData {
+  const loc = (line: number) => ({ start: { line, column: 0 }, end: { line, column: 10 } })
+  return {
+    path: '/path/to/file.ts',
+    statementMap: Object.fromEntries(s.map((_, i) => [i, loc(i + 1)])),
+    s: Object.fromEntries(s.map((count, i) => [i, count])),
+    fnMap: Object.fromEntries(
+      f.map((_, i) => [i, { name: `fn${i}`, decl: loc(i + 1), loc: loc(i + 1), line: i + 1 }])
+    ),
+    f: Object.fromEntries(f.map((count, i) => [i, count])),
+    branchMap: Object.fromEntries(
+      b.map((arms, i) => [i, { type: 'if', loc: loc(i + 1), locations: arms.map(() => loc(i + 1)), line: i + 1 }])
+    ),
+    b: Object.fromEntries(b.map((arms, i) => [i, arms])),
+  }
+}
+
+describe('attributeCoverage', () => {
+  const unit: CoverageMapData = { '/path/to/file.ts': fileCoverage([1, 1, 0], [1, 0], [[1, 0]]) }
+  const browser: CoverageMapData = { '/path/to/file.ts': fileCoverage([0, 2, 3], [0, 1], [[1, 1]]) }
+  const merged = smartMergeCoverage([unit, browser])
+
+  it('should list the inputs that hit each item', () => {
+    const result = attributeCoverage(merged, [
+      { name: 'unit', coverageMap: unit },
+      { name: 'browser', coverageMap: browser },
+    ])
+
+    expect(result.inputs).toEqual(['unit', 'browser'])
+    expect(result.files['/path/to/file.ts']).toEqual({
+      statements: { '0': ['unit'], '1': ['unit', 'browser'], '2': ['browser'] },
+      functions: { '0': ['unit'], '1': ['browser'] },
+      branches: { '0': [['unit', 'browser'], ['browser']] },
+    })
+  })
+
+  it('should ignore inputs without the file', () => {
+    const result = attributeCoverage(merged, [
+      { name: 'unit', coverageMap: unit },
+      { name: 'e2e', coverageMap: {} },
+    ])
+
+    expect(result.files['/path/to/file.ts'].statements['2']).toEqual([])
+  })
+})
+
+describe('summarizeAttribution', () => {
+  it('should count items covered by a single input', () => {
+    const summaries = summarizeAttribution({
+      inputs: ['unit', 'browser'],
+      files: {
+        'a.ts': {
+          statements: { '0': ['unit'], '1': ['unit', 'browser'], '2': ['browser'], '3': ['browser'] },
+          functions: { '0': ['browser'] },
+          branches: { '0': [['unit'], []] },
+        },
+        'b.ts': {
+          statements: { '0': ['unit', 'browser'] },
+          functions: {},
+          branches: {},
+        },
+      },
+    })
+
+    expect(summaries).toEqual([
+      {
+        file: 'a.ts',
+        onlyBy: {
+          unit: { statements: 1, functions: 0, branches: 1 },
+          browser: { statements: 2, functions: 1, branches: 0 },
+        },
+      },
+    ])
+  })
+})
+
+describe('formatAttributionSummary', () => {
+  it('should show one column per input', () => {
+    const table = formatAttributionSummary(
+      [
+        {
+          file: 'a.ts',
+          onlyBy: {
+            unit: { statements: 1, functions: 0, branches: 1 },
+            browser: { statements: 2, functions: 1, branches: 0 },
+          },
+        },
+      ],
+      ['unit', 'browser']
+    )
+
+    expect(table.split('\n')).toEqual([
+      'File | Only unit (stmts/fns/branches) | Only browser (stmts/fns/branches)',
+      '-----|--------------------------------|----------------------------------',
+      'a.ts | 1/0/1                          | 2/1/0',
+    ])
+  })
+})
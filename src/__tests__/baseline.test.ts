@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from 'vitest'
+import { mkdtempSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { pathToFileURL } from 'url'
+import { compareCoverage, formatBaselineComparison, loadBaseline } from '../baseline.js'
+import type { CoverageMapData, FileCoverageData } from 'istanbul-lib-coverage'
+
+function fileCoverage(path: string, s: number[], f: number[] = []): FileCoverageData {
+  const loc = (line: number) => ({ start: { line, column: 0 }, end: { line, column: 10 } })
+  return {
+    path,
+    statementMap: Object.fromEntries(s.map((_, i) => [i, loc(i + 1)])),
+    s: Object.fromEntries(s.map((count, i) => [i, count])),
+    fnMap: Object.fromEntries(
+      f.map((_, i) => [i, { name: `fn${i}`, decl: loc(i + 1), loc: loc(i + 1), line: i + 1 }])
+    ),
+    f: Object.fromEntries(f.map((count, i) => [i, count])),
+    branchMap: {},
+    b: {},
+  }
+}
+
+describe('compareCoverage', () => {
+  const baseline: CoverageMapData = {
+    '/project/src/a.ts': fileCoverage('/project/src/a.ts', [1, 1, 1, 1], [1, 1]),
+    '/project/src/b.ts': fileCoverage('/project/src/b.ts', [1, 0]),
+  }
+  const current: CoverageMapData = {
+    '/project/src/a.ts': fileCoverage('/project/src/a.ts', [1, 1, 0, 0], [1, 0]),
+    '/project/src/b.ts': fileCoverage('/project/src/b.ts', [1, 0]),
+  }
+
+  it('should compute total and per-file deltas', () => {
+    const result = compareCoverage(baseline, current, { root: '/project' })
+
+    // 5/6 statements before, 3/6 after
+    expect(result.total.statements).toEqual({ baseline: 83.33, current: 50, delta: 50 - 83.33 })
+    expect(result.files).toHaveLength(1)
+    expect(result.files[0].file).toBe('src/a.ts')
+    expect(result.files[0].metrics.statements).toEqual({ baseline: 100, current: 50, delta: -50 })
+    expect(result.files[0].metrics.functions.delta).toBe(-50)
+  })
+
+  it('should list newly uncovered lines and functions', () => {
+    const result = compareCoverage(baseline, current, { root: '/project' })
+
+    expect(result.files[0].newlyUncoveredLines).toEqual([3, 4])
+    expect(result.files[0].newlyUncoveredFunctions).toEqual(['fn1'])
+  })
+
+  it('should pass without a tolerance', () => {
+    const result = compareCoverage(baseline, current, { root: '/project' })
+
+    expect(result.regressions).toEqual([])
+    expect(result.passed).toBe(true)
+  })
+
+  it('should report drops beyond the tolerance', () => {
+    const result = compareCoverage(baseline, current, { root: '/project', tolerance: 40 })
+
+    expect(result.passed).toBe(false)
+    // total statements/lines drop by 33.33, functions by 50
+    expect(result.regressions.map(({ scope, metric }) => `${scope}:${metric}`)).toEqual([
+      'total:functions',
+      'src/a.ts:statements',
+      'src/a.ts:functions',
+      'src/a.ts:lines',
+    ])
+  })
+
+  it('should ignore files that are new or unchanged', () => {
+    const withNewFile: CoverageMapData = {
+      ...baseline,
+      '/project/src/c.ts': fileCoverage('/project/src/c.ts', [0]),
+    }
+
+    expect(compareCoverage(baseline, withNewFile, { root: '/project' }).files).toEqual([])
+  })
+
+  it('should count an empty current merge as fully covered', () => {
+    const result = compareCoverage(baseline, {}, { root: '/project', tolerance: 0 })
+
+    expect(result.total.statements).toEqual({ baseline: 83.33, current: 100, delta: 100 - 83.33 })
+    expect(result.passed).toBe(true)
+    expect(formatBaselineComparison(result)).toContain('100.00% (+16.67)')
+  })
+
+  it('should report drops from an empty baseline', () => {
+    const result = compareCoverage({}, current, { root: '/project', tolerance: 10 })
+
+    expect(result.total.statements).toEqual({ baseline: 100, current: 50, delta: -50 })
+    expect(result.passed).toBe(false)
+    expect(result.regressions.map(({ metric }) => metric)).toEqual(['statements', 'functions', 'lines'])
+  })
+})
+
+describe('loadBaseline', () => {
+  it('should report V8 conversion problems through the logger', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'coverage-baseline-'))
+    const script = join(dir, 'script.js')
+    const source = 'used()\n//# sourceMappingURL=data:application/json;base64,bm90IGpzb24=\n'
+    writeFileSync(script, source)
+    const ranges = [{ startOffset: 0, endOffset: source.length, count: 1 }]
+    const functions = [{ functionName: '', isBlockCoverage: true, ranges }]
+    writeFileSync(
+      join(dir, 'coverage-1-1-0.json'),
+      JSON.stringify({ result: [{ scriptId: '1', url: pathToFileURL(script).href, functions }] })
+    )
+    const logger = { info: vi.fn(), log: vi.fn(), warn: vi.fn() }
+
+    try {
+      expect(await loadBaseline(dir, dir, logger)).toEqual({})
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining(`Failed to convert V8 coverage for ${script}`))
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('formatBaselineComparison', () => {
+  it('should format deltas and newly uncovered items', () => {
+    const baseline: CoverageMapData = { '/p/a.ts': fileCoverage('/p/a.ts', [1, 1], [1]) }
+    const current: CoverageMapData = { '/p/a.ts': fileCoverage('/p/a.ts', [1, 0], [0]) }
+
+    const output = formatBaselineComparison(compareCoverage(baseline, current, { root: '/p' }))
+
+    expect(output).toContain('All files | 50.00% (-50.00)')
+    expect(output).toContain('a.ts      | 50.00% (-50.00)')
+    expect(output).toContain('Newly uncovered:\n  a.ts: lines 2; functions fn0')
+  })
+})
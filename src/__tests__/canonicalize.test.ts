@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { canonicalizePath, canonicalizeCoverage } from '../canonicalize.js'
+import type { CoverageMapData, FileCoverageData } from 'istanbul-lib-coverage'
+
+function fileCoverage(path: string, count: number): FileCoverageData {
+  return {
+    path,
+    statementMap: { '0': { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } } },
+    s: { '0': count },
+    fnMap: {},
+    f: {},
+    branchMap: {},
+    b: {},
+  }
+}
+
+describe('canonicalizePath', () => {
+  it('should leave plain absolute paths unchanged', () => {
+    expect(canonicalizePath('/project/src/a.ts')).toBe('/project/src/a.ts')
+  })
+
+  it('should strip the Vite /@fs/ prefix', () => {
+    expect(canonicalizePath('/@fs/project/src/a.ts')).toBe('/project/src/a.ts')
+  })
+
+  it('should convert file:// URLs', () => {
+    expect(canonicalizePath('file:///project/src/my%20file.ts')).toBe('/project/src/my file.ts')
+  })
+
+  it('should strip query suffixes', () => {
+    expect(canonicalizePath('/project/src/a.ts?v=1a2b3c')).toBe('/project/src/a.ts')
+    expect(canonicalizePath('/project/src/a.ts?import')).toBe('/project/src/a.ts')
+  })
+
+  it('should normalize Windows paths', () => {
+    expect(canonicalizePath('c:\\project\\src\\a.ts')).toBe('C:/project/src/a.ts')
+    expect(canonicalizePath('file:///C:/project/src/a.ts')).toBe('C:/project/src/a.ts')
+    expect(canonicalizePath('/@fs/C:/project/src/a.ts')).toBe('C:/project/src/a.ts')
+  })
+
+  it('should resolve redundant segments', () => {
+    expect(canonicalizePath('/project//src/../src/a.ts')).toBe('/project/src/a.ts')
+  })
+})
+
+describe('canonicalizeCoverage', () => {
+  it('should line up identifiers across inputs and report them', () => {
+    const unit: CoverageMapData = {
+      '/project/src/a.ts': fileCoverage('/project/src/a.ts', 1),
+    }
+    const browser: CoverageMapData = {
+      '/@fs/project/src/a.ts?v=123': fileCoverage('/@fs/project/src/a.ts?v=123', 2),
+    }
+
+    const result = canonicalizeCoverage([unit, browser])
+
+    expect(Object.keys(result.coverageMaps[0])).toEqual(['/project/src/a.ts'])
+    expect(Object.keys(result.coverageMaps[1])).toEqual(['/project/src/a.ts'])
+    expect(result.coverageMaps[1]['/project/src/a.ts'].path).toBe('/project/src/a.ts')
+    expect(result.collapsed).toEqual([
+      { path: '/project/src/a.ts', keys: ['/@fs/project/src/a.ts?v=123', '/project/src/a.ts'] },
+    ])
+  })
+
+  it('should merge keys that collapse within one input', () => {
+    const browser: CoverageMapData = {
+      '/project/src/a.ts?import': fileCoverage('/project/src/a.ts?import', 1),
+      '/project/src/a.ts?v=123': fileCoverage('/project/src/a.ts?v=123', 2),
+    }
+
+    const result = canonicalizeCoverage([browser])
+
+    expect(Object.keys(result.coverageMaps[0])).toEqual(['/project/src/a.ts'])
+    expect(result.coverageMaps[0]['/project/src/a.ts'].s['0']).toBe(3)
+    expect(result.collapsed).toHaveLength(1)
+  })
+
+  it('should not report files seen under a single identifier', () => {
+    const unit: CoverageMapData = { '/project/src/a.ts': fileCoverage('/project/src/a.ts', 1) }
+
+    expect(canonicalizeCoverage([unit, unit]).collapsed).toEqual([])
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { spawnSync } from 'child_process'
+import { createRequire } from 'module'
+import { existsSync, mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { dirname, join } from 'path'
+import { fileURLToPath } from 'url'
+
+const cliPath = join(dirname(fileURLToPath(import.meta.url)), '..', 'cli.ts')
+const jitiPath = join(dirname(createRequire(import.meta.url).resolve('jiti/package.json')), 'lib', 'jiti-cli.mjs')
+
+// Each run compiles the CLI with jiti, which takes a few seconds on a cold cache
+describe('cli', { timeout: 30_000 }, () => {
+  let root: string
+
+  /** Run the CLI from its sources in `root` */
+  const run = (...args: string[]) =>
+    spawnSync(process.execPath, [jitiPath, cliPath, ...args], { cwd: root, encoding: 'utf-8', timeout: 60_000 })
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'coverage-cli-'))
+    const file = join(root, 'src', 'a.ts')
+    const coverage = {
+      [file]: {
+        path: file,
+        statementMap: { '0': { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } } },
+        s: { '0': 1 },
+        fnMap: {},
+        f: {},
+        branchMap: {},
+        b: {},
+      },
+    }
+    for (const name of ['unit', 'browser']) {
+      mkdirSync(join(root, name))
+      writeFileSync(join(root, name, 'coverage-final.json'), JSON.stringify(coverage))
+    }
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  describe('--reporter', () => {
+    it('should pass the JSON after the reporter name as its options', () => {
+      const { status } = run('unit', 'browser', '-o', 'merged', '-r', 'cobertura:{"file":"custom.xml"}', '-q')
+
+      expect(status).toBe(0)
+      expect(existsSync(join(root, 'merged', 'custom.xml'))).toBe(true)
+    })
+
+    it('should reject invalid JSON options', () => {
+      const { status, stderr } = run('unit', 'browser', '-o', 'merged', '-r', 'cobertura:{file:custom.xml}')
+
+      expect(status).toBe(1)
+      expect(stderr).toContain('Invalid JSON options for reporter cobertura')
+      expect(existsSync(join(root, 'merged'))).toBe(false)
+    })
+
+    it('should reject options that are not an object', () => {
+      const { status, stderr } = run('unit', 'browser', '-o', 'merged', '-r', 'cobertura:["custom.xml"]')
+
+      expect(status).toBe(1)
+      expect(stderr).toContain('Reporter options for cobertura must be a JSON object')
+    })
+  })
+
+  describe('--json', () => {
+    it('should print only the JSON document to stdout', () => {
+      const { status, stdout, stderr } = run('unit', 'browser', 'missing', '-o', 'merged', '-r', 'json', '--json')
+
+      expect(status).toBe(0)
+      const report = JSON.parse(stdout)
+      expect(report.result.statements).toEqual({ covered: 1, total: 1, pct: 100 })
+      expect(report.inputs.map(({ name, status }: { name?: string; status: string }) => [name, status])).toEqual([
+        ['unit', 'loaded'],
+        ['browser', 'loaded'],
+        [undefined, 'skipped'],
+      ])
+      expect(report.skipped).toEqual(['missing'])
+      expect(stderr).toContain('Loading: ')
+    })
+
+    it('should keep reporters that print to a file', () => {
+      const reporter = 'text-summary:{"file":"summary.txt"}'
+      const { status, stdout } = run('unit', 'browser', '-o', 'merged', '-r', reporter, '--json')
+
+      expect(status).toBe(0)
+      expect(JSON.parse(stdout).outputDir).toBe(join(root, 'merged'))
+    })
+
+    it('should refuse reporters that print to stdout', () => {
+      const { status, stdout, stderr } = run('unit', 'browser', '-o', 'merged', '-r', 'text', '--json')
+
+      expect(status).toBe(1)
+      expect(stdout).toBe('')
+      expect(stderr).toContain('the text reporter(s)')
+    })
+  })
+})
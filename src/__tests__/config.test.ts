@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { defineConfig, loadConfig } from '../config.js'
+
+describe('loadConfig', () => {
+  let cwd: string
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'coverage-merge-config-'))
+  })
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true })
+  })
+
+  it('should return an empty config when nothing is found', async () => {
+    expect(await loadConfig(undefined, cwd)).toEqual({ config: {}, file: null })
+  })
+
+  it('should load a JSON config file', async () => {
+    const file = join(cwd, 'vitest-coverage-merge.config.json')
+    writeFileSync(file, JSON.stringify({ outputDir: 'coverage/merged', normalize: true }))
+
+    expect(await loadConfig(undefined, cwd)).toEqual({
+      config: { outputDir: join(cwd, 'coverage/merged'), normalize: true },
+      file,
+    })
+  })
+
+  it('should load a TypeScript config file', async () => {
+    const file = join(cwd, 'vitest-coverage-merge.config.ts')
+    writeFileSync(
+      file,
+      `const config: { inputDirs: string[] } = { inputDirs: ['coverage/unit', 'coverage/browser'] }
+export default config
+`
+    )
+
+    const result = await loadConfig(undefined, cwd)
+
+    expect(result.file).toBe(file)
+    expect(result.config.inputDirs).toEqual([join(cwd, 'coverage/unit'), join(cwd, 'coverage/browser')])
+  })
+
+  it('should prefer config files over package.json', async () => {
+    writeFileSync(join(cwd, 'package.json'), JSON.stringify({ vitestCoverageMerge: { outputDir: 'a' } }))
+    writeFileSync(join(cwd, 'vitest-coverage-merge.config.json'), JSON.stringify({ outputDir: 'b' }))
+
+    expect((await loadConfig(undefined, cwd)).config.outputDir).toBe(join(cwd, 'b'))
+  })
+
+  it('should read the vitestCoverageMerge key from package.json', async () => {
+    writeFileSync(
+      join(cwd, 'package.json'),
+      JSON.stringify({ name: 'app', vitestCoverageMerge: { reporters: ['text'] } })
+    )
+
+    expect((await loadConfig(undefined, cwd)).config).toEqual({ reporters: ['text'] })
+  })
+
+  it('should ignore package.json without the config key', async () => {
+    writeFileSync(join(cwd, 'package.json'), JSON.stringify({ name: 'app' }))
+
+    expect((await loadConfig(undefined, cwd)).file).toBeNull()
+  })
+
+  it('should load an explicit config file', async () => {
+    writeFileSync(join(cwd, 'custom.json'), JSON.stringify({ outputDir: 'out' }))
+
+    expect((await loadConfig('custom.json', cwd)).config).toEqual({ outputDir: join(cwd, 'out') })
+  })
+
+  it('should resolve relative paths against the directory of the config file', async () => {
+    mkdirSync(join(cwd, 'config'))
+    writeFileSync(
+      join(cwd, 'config', 'merge.json'),
+      JSON.stringify({
+        inputDirs: ['../coverage/unit', 'packages/*/coverage', { dir: 'browser', root: '..' }, '/abs/e2e'],
+        outputDir: 'merged',
+        relativeTo: '..',
+        include: ['src/**'],
+        baseline: { file: 'baseline.json' },
+        diffCoverage: { diffFile: 'changes.diff' },
+      })
+    )
+
+    const { config } = await loadConfig('config/merge.json', cwd)
+
+    expect(config).toEqual({
+      inputDirs: [
+        join(cwd, 'coverage/unit'),
+        `${join(cwd, 'config')}/packages/*/coverage`,
+        { dir: join(cwd, 'config/browser'), root: cwd },
+        '/abs/e2e',
+      ],
+      outputDir: join(cwd, 'config/merged'),
+      relativeTo: cwd,
+      include: ['src/**'],
+      baseline: { file: join(cwd, 'config/baseline.json') },
+      diffCoverage: { diffFile: join(cwd, 'config/changes.diff') },
+    })
+  })
+
+  it('should keep reading the diff from stdin', async () => {
+    writeFileSync(join(cwd, 'custom.json'), JSON.stringify({ diffCoverage: { diffFile: '-', threshold: 80 } }))
+
+    expect((await loadConfig('custom.json', cwd)).config.diffCoverage).toEqual({ diffFile: '-', threshold: 80 })
+  })
+
+  it('should reject unknown options', async () => {
+    writeFileSync(join(cwd, 'custom.json'), JSON.stringify({ outDir: 'merged' }))
+
+    await expect(loadConfig('custom.json', cwd)).rejects.toThrow(
+      `Invalid config in ${join(cwd, 'custom.json')}: unknown option "outDir"`
+    )
+  })
+
+  it.each([
+    [{ inputDirs: 'coverage/unit' }, 'inputDirs must be an array of paths or { dir } objects'],
+    [{ inputDirs: [{ name: 'unit' }] }, 'inputDirs must be an array of paths or { dir } objects'],
+    [{ countStrategy: 'min' }, 'countStrategy must be one of max, sum, binary'],
+    [{ thresholds: { lines: '80' } }, 'thresholds must be an object of percentages'],
+    [{ thresholds: { globs: { 'src/**': { perFile: 'yes' } } } }, 'thresholds must be an object of percentages'],
+    [{ baseline: { tolerance: 1 } }, 'baseline must be an object with a file'],
+  ])('should reject options of the wrong type: %j', async (config, message) => {
+    writeFileSync(join(cwd, 'custom.json'), JSON.stringify(config))
+
+    await expect(loadConfig('custom.json', cwd)).rejects.toThrow(message)
+  })
+
+  it('should throw when an explicit config file does not exist', async () => {
+    await expect(loadConfig('missing.json', cwd)).rejects.toThrow('Config file not found: missing.json')
+  })
+
+  it('should reject configs that are not objects', async () => {
+    writeFileSync(join(cwd, 'vitest-coverage-merge.config.json'), '[]')
+
+    await expect(loadConfig(undefined, cwd)).rejects.toThrow('expected an object')
+  })
+})
+
+describe('defineConfig', () => {
+  it('should return the config unchanged', () => {
+    const config = { inputDirs: ['a', 'b'], outputDir: 'out' }
+
+    expect(defineConfig(config)).toBe(config)
+  })
+})
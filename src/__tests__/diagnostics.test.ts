@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { diagnoseMerge, formatDiagnostics } from '../diagnostics.js'
+import { smartMergeCoverageWithReport } from '../smart-merge.js'
+import type { CoverageMapData, FileCoverageData } from 'istanbul-lib-coverage'
+
+const range = (line: number, startColumn: number, endColumn: number) => ({
+  start: { line, column: startColumn },
+  end: { line, column: endColumn },
+})
+
+function fileCoverage(path: string, statements: Array<[ReturnType<typeof range>, number]>): FileCoverageData {
+  return {
+    path,
+    statementMap: Object.fromEntries(statements.map(([loc], i) => [i, loc])),
+    s: Object.fromEntries(statements.map(([, count], i) => [i, count])),
+    fnMap: {},
+    f: {},
+    branchMap: {},
+    b: {},
+  }
+}
+
+describe('diagnoseMerge', () => {
+  const unit: CoverageMapData = {
+    '/project/src/a.ts': fileCoverage('/project/src/a.ts', [
+      [range(1, 0, 10), 1],
+      [range(2, 4, 10), 1],
+    ]),
+    '/project/src/b.ts': fileCoverage('/project/src/b.ts', [[range(1, 0, 10), 1]]),
+  }
+  const browser: CoverageMapData = {
+    '/project/src/a.ts': fileCoverage('/project/src/a.ts', [
+      [range(1, 0, 10), 2],
+      [range(2, 0, 10), 0],
+      [range(3, 0, 10), 0],
+    ]),
+  }
+  const { coverageMap, structureSources } = smartMergeCoverageWithReport([browser, unit])
+  const inputs = [
+    { name: 'browser', coverageMap: browser },
+    { name: 'unit', coverageMap: unit },
+  ]
+
+  it('should classify the items of each input', () => {
+    const [a, b] = diagnoseMerge(coverageMap, inputs, { root: '/project', structureSources })
+
+    expect(a.file).toBe('src/a.ts')
+    expect(a.structure).toBe('browser')
+    expect(a.inputs).toEqual([
+      { input: 'browser', statements: 3, functions: 0, branches: 0, exact: 3, approximate: 0, unmatched: 0, dropped: [] },
+      { input: 'unit', statements: 2, functions: 0, branches: 0, exact: 1, approximate: 1, unmatched: 0, dropped: [] },
+    ])
+    expect(b).toMatchObject({ file: 'src/b.ts', structure: 'unit' })
+  })
+
+  it('should list items without a counterpart in the merged structure', () => {
+    const merged: CoverageMapData = {
+      '/project/src/a.ts': fileCoverage('/project/src/a.ts', [[range(1, 0, 10), 2]]),
+    }
+
+    const [a] = diagnoseMerge(merged, inputs, { root: '/project' })
+
+    expect(a.structure).toBeUndefined()
+    expect(a.inputs[1].unmatched).toBe(1)
+    expect(a.inputs[1].dropped).toEqual([{ kind: 'statement', loc: range(2, 4, 10), count: 1 }])
+  })
+})
+
+describe('formatDiagnostics', () => {
+  it('should show files that did not match exactly', () => {
+    const output = formatDiagnostics([
+      {
+        file: 'src/a.ts',
+        structure: 'browser',
+        inputs: [
+          {
+            input: 'unit',
+            statements: 2,
+            functions: 0,
+            branches: 0,
+            exact: 1,
+            approximate: 0,
+            unmatched: 1,
+            dropped: [{ kind: 'statement', loc: range(2, 4, 10), count: 1 }],
+          },
+        ],
+      },
+      { file: 'src/b.ts', inputs: [] },
+    ])
+
+    expect(output).toContain('src/a.ts (structure: browser)')
+    expect(output).toContain('  unit  | 2          | 0         | 0        | 1     | 0           | 1')
+    expect(output).toContain('  dropped from unit: statement at 2:4-2:10 (1 hit(s))')
+    expect(output).toContain('1 of 2 file(s) matched exactly across all inputs')
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { execFileSync } from 'child_process'
+import { mkdtempSync, realpathSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { parseUnifiedDiff, computeDiffCoverage, readGitDiff, resolveDiff } from '../diff-coverage.js'
+import { formatLineRanges } from '../format.js'
+import type { CoverageMapData, FileCoverageData } from 'istanbul-lib-coverage'
+
+const diff = `diff --git a/src/a.ts b/src/a.ts
+index 1111111..2222222 100644
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,3 +1,4 @@
+ const x = 1
+-const y = 2
++const y = 3
++const z = 4
+ console.log(x)
+@@ -10,0 +12,2 @@ function foo() {
++  if (x) bar()
++  // comment
+diff --git a/src/removed.ts b/src/removed.ts
+deleted file mode 100644
+--- a/src/removed.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-export {}
+`
+
+describe('parseUnifiedDiff', () => {
+  it('should collect added lines per file', () => {
+    const result = parseUnifiedDiff(diff, '/project')
+
+    expect([...result.keys()]).toEqual(['/project/src/a.ts'])
+    expect([...result.get('/project/src/a.ts')!]).toEqual([2, 3, 12, 13])
+  })
+
+  it('should read lines starting with +++ or --- inside a hunk as content', () => {
+    const result = parseUnifiedDiff(
+      `--- a/src/a.ts
++++ b/src/a.ts
+@@ -4,2 +4,3 @@
+--- removed
++++ counter
++x++
+ y
+--- a/src/b.ts
++++ b/src/b.ts
+@@ -1 +1 @@
+-a
++b
+`,
+      '/project'
+    )
+
+    expect([...result.keys()]).toEqual(['/project/src/a.ts', '/project/src/b.ts'])
+    expect([...result.get('/project/src/a.ts')!]).toEqual([4, 5])
+    expect([...result.get('/project/src/b.ts')!]).toEqual([1])
+  })
+})
+
+describe('computeDiffCoverage', () => {
+  const loc = (line: number) => ({ start: { line, column: 0 }, end: { line, column: 10 } })
+  const coverage: CoverageMapData = {
+    '/project/src/a.ts': {
+      path: '/project/src/a.ts',
+      statementMap: { '0': loc(1), '1': loc(2), '2': loc(3), '3': loc(12) },
+      s: { '0': 1, '1': 1, '2': 0, '3': 1 },
+      fnMap: {},
+      f: {},
+      branchMap: {
+        '0': { type: 'if', loc: loc(12), locations: [loc(12), loc(12)], line: 12 },
+      },
+      b: { '0': [1, 0] },
+    } as FileCoverageData,
+  }
+
+  it('should classify changed executable lines', () => {
+    const result = computeDiffCoverage(coverage, { diff, root: '/project' })
+
+    expect(result.files).toEqual([{ file: 'src/a.ts', covered: [2], partial: [12], uncovered: [3] }])
+    expect(result.covered).toBe(1)
+    expect(result.total).toBe(3)
+    expect(result.passed).toBe(true)
+  })
+
+  it('should fail below the threshold', () => {
+    const result = computeDiffCoverage(coverage, { diff, root: '/project', threshold: 50 })
+
+    expect(result.pct).toBeCloseTo(33.33, 2)
+    expect(result.passed).toBe(false)
+  })
+
+  it('should pass when no executable lines changed', () => {
+    const result = computeDiffCoverage(coverage, { diff: '', root: '/project', threshold: 100 })
+
+    expect(result.total).toBe(0)
+    expect(result.pct).toBe(100)
+    expect(result.passed).toBe(true)
+  })
+})
+
+describe('resolveDiff', () => {
+  let root: string
+
+  beforeEach(() => {
+    root = realpathSync(mkdtempSync(join(tmpdir(), 'coverage-diff-')))
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it('should read the diff from diffFile', () => {
+    writeFileSync(join(root, 'changes.diff'), diff)
+
+    const result = resolveDiff({ diffFile: join(root, 'changes.diff'), threshold: 80 })
+
+    expect(result).toEqual({ diff, threshold: 80 })
+  })
+
+  it('should require exactly one diff source', () => {
+    expect(() => resolveDiff({ threshold: 80 })).toThrow('diffCoverage needs a diff source')
+    expect(() => computeDiffCoverage({}, { threshold: 80 })).toThrow('diffCoverage needs a diff source')
+    expect(() => resolveDiff({ diff, diffBase: 'main' })).toThrow('only one of diff, diffFile and diffBase')
+  })
+
+  it('should include untracked files in the diff against a git ref', () => {
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: root, stdio: 'pipe' })
+    git('init', '-q')
+    git('-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '--allow-empty', '-m', 'init')
+    writeFileSync(join(root, 'new.ts'), 'const a = 1\nconst b = 2\n')
+
+    const result = readGitDiff('HEAD', root)
+
+    expect(result.root).toBe(root)
+    expect([...parseUnifiedDiff(result.diff, root).get(join(root, 'new.ts'))!]).toEqual([1, 2])
+  })
+})
+
+describe('formatLineRanges', () => {
+  it('should compress consecutive lines', () => {
+    expect(formatLineRanges([3, 4, 5, 9, 11, 12])).toBe('3-5, 9, 11-12')
+    expect(formatLineRanges([])).toBe('')
+  })
+})
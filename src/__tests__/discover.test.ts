@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { discoverVitestInputs } from '../discover.js'
+
+describe('discoverVitestInputs', () => {
+  let cwd: string
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'coverage-discover-'))
+  })
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true })
+  })
+
+  const writeConfig = (file: string, source: string) => {
+    mkdirSync(join(cwd, file, '..'), { recursive: true })
+    writeFileSync(join(cwd, file), source)
+  }
+
+  it('should read the reports directory and filters of each config in the directory', async () => {
+    writeConfig(
+      'vitest.config.ts',
+      `export default { test: { coverage: { reportsDirectory: './coverage/unit', exclude: ['src/components/**'] } } }`
+    )
+    writeConfig(
+      'vitest.component.config.ts',
+      `export default ({ mode }: { mode: string }) => ({
+  test: { name: 'component', coverage: { reportsDirectory: \`./coverage/\${mode}\`, include: ['src/components/**'] } },
+})`
+    )
+
+    const result = await discoverVitestInputs(undefined, cwd)
+
+    // Each config's globs only apply to the coverage it wrote
+    expect(result.inputs).toEqual([
+      {
+        dir: join(cwd, 'coverage/unit'),
+        name: undefined,
+        config: join(cwd, 'vitest.config.ts'),
+        exclude: ['src/components/**'],
+      },
+      {
+        dir: join(cwd, 'coverage/test'),
+        name: 'component',
+        config: join(cwd, 'vitest.component.config.ts'),
+        include: ['src/components/**'],
+      },
+    ])
+  })
+
+  it('should follow test.projects and report configs it cannot use', async () => {
+    writeConfig(
+      'vitest.config.ts',
+      `export default {
+  test: {
+    projects: ['packages/*', { test: { name: 'inline', coverage: { reportsDirectory: 'coverage/inline' } } }],
+  },
+}`
+    )
+    writeConfig(
+      'packages/a/vitest.config.ts',
+      `export default { test: { coverage: { reportsDirectory: 'coverage', include: ['src/**'] } } }`
+    )
+    writeConfig('packages/b/vite.config.ts', `export default { test: {} }`)
+    writeConfig('packages/c/vitest.config.ts', `throw new Error('Cannot find package "@vitejs/plugin-react"')`)
+
+    const result = await discoverVitestInputs([join(cwd, 'vitest.config.ts')], cwd)
+
+    expect(result.inputs.map(({ dir }) => dir)).toEqual([join(cwd, 'packages/a/coverage'), join(cwd, 'coverage/inline')])
+    expect(result.inputs[0].include).toEqual(['packages/a/src/**'])
+    expect(result.skipped).toEqual([join(cwd, 'packages/b/vite.config.ts')])
+    expect(result.failures).toEqual([
+      { file: join(cwd, 'packages/c/vitest.config.ts'), error: expect.stringContaining('@vitejs/plugin-react') },
+    ])
+  })
+
+  it('should read the projects of a workspace file', async () => {
+    writeConfig('vitest.workspace.json', JSON.stringify(['packages/*/vitest.config.ts']))
+    writeConfig('packages/a/vitest.config.ts', `export default { test: { coverage: {} } }`)
+
+    const result = await discoverVitestInputs(undefined, cwd)
+
+    expect(result.inputs).toEqual([
+      { dir: join(cwd, 'packages/a/coverage'), name: undefined, config: join(cwd, 'packages/a/vitest.config.ts') },
+    ])
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { createFileFilter, filterCoverage } from '../filter.js'
+import type { CoverageMapData, FileCoverageData } from 'istanbul-lib-coverage'
+
+function fileCoverage(path: string): FileCoverageData {
+  return { path, statementMap: {}, s: {}, fnMap: {}, f: {}, branchMap: {}, b: {} }
+}
+
+describe('createFileFilter', () => {
+  it('should keep every file without include/exclude', () => {
+    const filter = createFileFilter({ root: '/project' })
+
+    expect(filter('/project/src/a.ts')).toBe(true)
+    expect(filter('/project/node_modules/lib/index.js')).toBe(true)
+  })
+
+  it('should only keep included files', () => {
+    const filter = createFileFilter({ include: ['src/**'], root: '/project' })
+
+    expect(filter('/project/src/a.ts')).toBe(true)
+    expect(filter('/project/test/utils.ts')).toBe(false)
+  })
+
+  it('should let exclude win over include', () => {
+    const filter = createFileFilter({
+      include: ['src/**'],
+      exclude: ['**/*.stories.tsx', '**/node_modules/**'],
+      root: '/project',
+    })
+
+    expect(filter('/project/src/Button.tsx')).toBe(true)
+    expect(filter('/project/src/Button.stories.tsx')).toBe(false)
+    expect(filter('/project/src/node_modules/lib/index.js')).toBe(false)
+  })
+
+  it('should match dotfiles', () => {
+    const filter = createFileFilter({ exclude: ['**/.generated/**'], root: '/project' })
+
+    expect(filter('/project/src/.generated/api.ts')).toBe(false)
+  })
+})
+
+describe('filterCoverage', () => {
+  it('should drop rejected files and count them', () => {
+    const coverage: CoverageMapData = {
+      '/project/src/a.ts': fileCoverage('/project/src/a.ts'),
+      '/project/src/a.test.ts': fileCoverage('/project/src/a.test.ts'),
+      '/project/src/b.test.ts': fileCoverage('/project/src/b.test.ts'),
+    }
+
+    const result = filterCoverage(coverage, createFileFilter({ exclude: ['**/*.test.ts'], root: '/project' }))
+
+    expect(Object.keys(result.coverageMap)).toEqual(['/project/src/a.ts'])
+    expect(result.removed).toBe(2)
+  })
+})
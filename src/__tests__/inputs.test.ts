@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { expandInputPatterns, findCoverageInput, loadCoverageInput } from '../inputs.js'
+import { silentLogger } from '../logger.js'
+
+describe('coverage inputs', () => {
+  let root: string
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'coverage-inputs-'))
+    for (const pkg of ['b', 'a']) {
+      mkdirSync(join(root, 'packages', pkg, 'coverage', 'unit'), { recursive: true })
+      writeFileSync(join(root, 'packages', pkg, 'coverage', 'unit', 'coverage-final.json'), '{}')
+    }
+    mkdirSync(join(root, 'lcov-only'))
+    writeFileSync(join(root, 'lcov-only', 'lcov.info'), '')
+    mkdirSync(join(root, 'empty'))
+    // vitest's raw dumps of Vite-transformed code
+    mkdirSync(join(root, 'vitest-tmp', '.tmp'), { recursive: true })
+    writeFileSync(join(root, 'vitest-tmp', '.tmp', 'coverage-0.json'), '{"result":[]}')
+    // lcov reporters write SF paths relative to the project root, not to the coverage directory
+    mkdirSync(join(root, 'project', 'src'), { recursive: true })
+    mkdirSync(join(root, 'project', 'coverage', 'e2e'), { recursive: true })
+    writeFileSync(join(root, 'project', 'src', 'a.ts'), '')
+    writeFileSync(join(root, 'project', 'coverage', 'e2e', 'lcov.info'), 'SF:src/a.ts\nDA:1,1\nend_of_record\n')
+  })
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  describe('expandInputPatterns', () => {
+    it('should expand globs into sorted matches', () => {
+      const result = expandInputPatterns(['packages/*/coverage/unit'], root)
+
+      expect(result).toEqual([
+        join(root, 'packages/a/coverage/unit'),
+        join(root, 'packages/b/coverage/unit'),
+      ])
+    })
+
+    it('should keep pattern order and drop duplicates', () => {
+      const result = expandInputPatterns(['lcov-only', 'packages/*/coverage/unit', 'packages/a/coverage/unit'], root)
+
+      expect(result).toEqual([
+        join(root, 'lcov-only'),
+        join(root, 'packages/a/coverage/unit'),
+        join(root, 'packages/b/coverage/unit'),
+      ])
+    })
+
+    it('should match coverage files', () => {
+      const result = expandInputPatterns(['**/coverage-final.json'], root)
+
+      expect(result).toEqual([
+        join(root, 'packages/a/coverage/unit/coverage-final.json'),
+        join(root, 'packages/b/coverage/unit/coverage-final.json'),
+      ])
+    })
+  })
+
+  describe('findCoverageInput', () => {
+    it('should detect coverage-final.json in a directory', () => {
+      const dir = join(root, 'packages/a/coverage/unit')
+
+      expect(findCoverageInput(dir)).toEqual({
+        dir,
+        file: join(dir, 'coverage-final.json'),
+        format: 'istanbul',
+      })
+    })
+
+    it('should fall back to lcov.info', () => {
+      expect(findCoverageInput(join(root, 'lcov-only'))?.format).toBe('lcov')
+    })
+
+    it('should detect the format of direct file paths', () => {
+      const file = join(root, 'lcov-only', 'lcov.info')
+
+      expect(findCoverageInput(file)).toEqual({ dir: join(root, 'lcov-only'), file, format: 'lcov' })
+    })
+
+    it('should return null for directories without coverage', () => {
+      expect(findCoverageInput(join(root, 'empty'))).toBeNull()
+      expect(findCoverageInput(join(root, 'missing'))).toBeNull()
+      expect(findCoverageInput(join(root, 'vitest-tmp'))).toBeNull()
+    })
+  })
+
+  describe('loadCoverageInput', () => {
+    const lcovInput = () => findCoverageInput(join(root, 'project', 'coverage', 'e2e'))!
+
+    it('should resolve relative lcov paths against the nearest directory containing them', async () => {
+      const result = await loadCoverageInput(lcovInput(), silentLogger)
+
+      expect(Object.keys(result)).toEqual([join(root, 'project', 'src', 'a.ts')])
+    })
+
+    it('should resolve relative lcov paths against the given root', async () => {
+      const result = await loadCoverageInput(lcovInput(), silentLogger, join(root, 'elsewhere'))
+
+      expect(Object.keys(result)).toEqual([join(root, 'elsewhere', 'src', 'a.ts')])
+    })
+  })
+})
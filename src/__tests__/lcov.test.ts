@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { parseLcov } from '../lcov.js'
+import { smartMergeCoverage } from '../smart-merge.js'
+import type { CoverageMapData, FileCoverageData } from 'istanbul-lib-coverage'
+
+const lcov = `TN:
+SF:/path/to/file.ts
+FN:1,foo
+FN:5,bar
+FNDA:3,foo
+FNDA:0,bar
+FNF:2
+FNH:1
+DA:1,3
+DA:2,3
+DA:6,0
+LF:3
+LH:2
+BRDA:2,0,0,1
+BRDA:2,0,1,-
+BRF:2
+BRH:1
+end_of_record
+`
+
+describe('parseLcov', () => {
+  it('should convert DA records to statements', () => {
+    const result = parseLcov(lcov)
+    const file = result['/path/to/file.ts'] as FileCoverageData
+
+    expect(file.path).toBe('/path/to/file.ts')
+    expect(Object.values(file.statementMap).map((loc) => loc.start.line)).toEqual([1, 2, 6])
+    expect(Object.values(file.s)).toEqual([3, 3, 0])
+  })
+
+  it('should convert FN/FNDA records to functions', () => {
+    const file = parseLcov(lcov)['/path/to/file.ts'] as FileCoverageData
+
+    expect(file.fnMap['0'].name).toBe('foo')
+    expect(file.fnMap['0'].loc.start.line).toBe(1)
+    expect(file.fnMap['1'].name).toBe('bar')
+    expect(file.f).toEqual({ '0': 3, '1': 0 })
+  })
+
+  it('should group BRDA records by line and block', () => {
+    const file = parseLcov(lcov)['/path/to/file.ts'] as FileCoverageData
+
+    expect(Object.keys(file.branchMap)).toHaveLength(1)
+    expect(file.branchMap['0'].locations).toHaveLength(2)
+    expect(file.b['0']).toEqual([1, 0])
+  })
+
+  it('should support lcov 2.x FN records with end lines', () => {
+    const file = parseLcov('SF:/a.ts\nFN:3,7,baz\nFNDA:1,baz\nend_of_record\n')['/a.ts'] as FileCoverageData
+
+    expect(file.fnMap['0'].name).toBe('baz')
+    expect(file.fnMap['0'].loc.end.line).toBe(7)
+  })
+
+  it('should resolve relative SF paths against the root', () => {
+    const result = parseLcov('SF:src/a.ts\r\nDA:1,1\r\nend_of_record\r\n', '/project')
+
+    expect(Object.keys(result)).toEqual(['/project/src/a.ts'])
+  })
+
+  it('should skip DA and BRDA records without a valid line number', () => {
+    const content = 'SF:/a.ts\nDA:1,1\nDA:x,1\nDA:,2\nBRDA:y,0,0,1\nBRDA:2,0,z,1\nBRDA:2,0,0,1\nend_of_record\n'
+    const file = parseLcov(content)['/a.ts'] as FileCoverageData
+
+    expect(Object.values(file.statementMap).map(({ start }) => start.line)).toEqual([1])
+    expect(file.b).toEqual({ '0': [1] })
+    expect(file.branchMap['0'].line).toBe(2)
+  })
+
+  it('should merge with coverage-final.json data by line', () => {
+    const json: CoverageMapData = {
+      '/path/to/file.ts': {
+        path: '/path/to/file.ts',
+        statementMap: {
+          '0': { start: { line: 1, column: 2 }, end: { line: 1, column: 10 } },
+          '1': { start: { line: 6, column: 2 }, end: { line: 6, column: 10 } },
+        },
+        s: { '0': 0, '1': 0 },
+        fnMap: {},
+        f: {},
+        branchMap: {},
+        b: {},
+      } as FileCoverageData,
+    }
+
+    const result = smartMergeCoverage([json, parseLcov('SF:/path/to/file.ts\nDA:1,2\nend_of_record\n')])
+
+    expect(result['/path/to/file.ts'].s).toEqual({ '0': 2, '1': 0 })
+  })
+})
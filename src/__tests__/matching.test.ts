@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { matchItems } from '../matching.js'
+
+const range = (line: number, startColumn: number, endColumn: number, endLine: number = line) => ({
+  start: { line, column: startColumn },
+  end: { line: endLine, column: endColumn },
+})
+
+describe('matchItems', () => {
+  it('should prefer exact ranges over other items on the same line', () => {
+    const matches = matchItems(
+      [
+        { key: '0', loc: range(1, 0, 10) },
+        { key: '1', loc: range(1, 12, 20) },
+      ],
+      [
+        { key: 'a', loc: range(1, 12, 20) },
+        { key: 'b', loc: range(1, 0, 10) },
+      ]
+    )
+
+    expect([...matches]).toEqual([
+      ['0', 'b'],
+      ['1', 'a'],
+    ])
+  })
+
+  it('should not reuse a source item for two targets', () => {
+    const matches = matchItems(
+      [
+        { key: '0', loc: range(1, 0, 10) },
+        { key: '1', loc: range(1, 12, 20) },
+      ],
+      [{ key: 'a', loc: range(1, 0, 10) }]
+    )
+
+    expect([...matches]).toEqual([['0', 'a']])
+  })
+
+  it('should match shifted columns by overlap', () => {
+    const matches = matchItems(
+      [
+        { key: '0', loc: range(2, 2, 30) },
+        { key: '1', loc: range(3, 2, 12) },
+      ],
+      [
+        { key: 'a', loc: range(2, 9, 30) },
+        { key: 'b', loc: range(3, 20, 25) },
+      ]
+    )
+
+    // b doesn't overlap target 1
+    expect([...matches]).toEqual([['0', 'a']])
+  })
+
+  it('should match functions by name when their location drifted', () => {
+    const matches = matchItems(
+      [
+        { key: '0', loc: range(5, 0, 1, 9), name: 'render' },
+        { key: '1', loc: range(10, 0, 1, 12), name: '(anonymous_1)' },
+      ],
+      [
+        { key: 'a', loc: range(6, 0, 1, 8), name: '(anonymous_1)' },
+        { key: 'b', loc: range(20, 0, 1, 24), name: 'render' },
+      ]
+    )
+
+    expect(matches.get('0')).toBe('b')
+    expect(matches.get('1')).toBeUndefined()
+  })
+
+  it('should match items without columns by line', () => {
+    const matches = matchItems(
+      [{ key: '0', loc: range(4, 2, 18) }],
+      [
+        { key: 'a', loc: range(3, 0, 0) },
+        { key: 'b', loc: range(4, 0, 0) },
+      ]
+    )
+
+    expect([...matches]).toEqual([['0', 'b']])
+  })
+})
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { existsSync, mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { CoverageMapData, FileCoverageData } from 'istanbul-lib-coverage'
+import { silentLogger } from '../logger.js'
+import {
+  formatCoverageSummary,
+  loadInputs,
+  mergeCoverageMaps,
+  summarizeCoverage,
+  writeCoverageReports,
+} from '../merge.js'
+
+const range = (line: number, startColumn: number, endColumn: number) => ({
+  start: { line, column: startColumn },
+  end: { line, column: endColumn },
+})
+
+const fileCoverage = (path: string, counts: number[]): FileCoverageData => ({
+  path,
+  statementMap: Object.fromEntries(counts.map((_, index) => [String(index), range(index + 1, 0, 10)])),
+  s: Object.fromEntries(counts.map((count, index) => [String(index), count])),
+  fnMap: {},
+  f: {},
+  branchMap: {},
+  b: {},
+})
+
+describe('mergeCoverageMaps', () => {
+  const unit: CoverageMapData = { '/ci/src/a.ts': fileCoverage('/ci/src/a.ts', [1, 0]) }
+  const browser: CoverageMapData = {
+    'file:///project/src/a.ts': fileCoverage('file:///project/src/a.ts', [0, 2]),
+    '/project/src/b.ts': fileCoverage('/project/src/b.ts', [0]),
+  }
+
+  it('should merge coverage maps in memory', () => {
+    const result = mergeCoverageMaps(
+      [
+        { name: 'unit', coverageMap: unit, pathMappings: [{ from: '/ci', to: '/project' }] },
+        { name: 'browser', coverageMap: browser },
+      ],
+      { relativeTo: '/project', exclude: ['src/b.ts'], logger: silentLogger }
+    )
+
+    expect(Object.keys(result.coverageMap)).toEqual(['/project/src/a.ts'])
+    expect((result.coverageMap['/project/src/a.ts'] as FileCoverageData).s).toEqual({ '0': 1, '1': 2 })
+    expect(result.inputs.map(({ name, coverageMap }) => [name, Object.keys(coverageMap)])).toEqual([
+      ['unit', ['/project/src/a.ts']],
+      ['browser', ['/project/src/a.ts']],
+    ])
+  })
+
+  it('should leave the input coverage maps unchanged', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'coverage-merge-'))
+    const file = join(dir, 'a.ts')
+    writeFileSync(file, "import { b } from './b'\nexport const a = b\n")
+    const inputs = [
+      { name: 'unit', coverageMap: { [file]: fileCoverage(file, [1, 1]) } },
+      { name: 'browser', coverageMap: { [`file://${file}`]: fileCoverage(`file://${file}`, [1, 0]) } },
+    ]
+    const before = structuredClone(inputs)
+
+    try {
+      const first = mergeCoverageMaps(inputs, { normalize: true, logger: silentLogger })
+      const second = mergeCoverageMaps(inputs, { normalize: true, logger: silentLogger })
+
+      expect(inputs).toEqual(before)
+      expect(first.normalized?.importsRemoved).toBe(2)
+      expect(second.normalized).toEqual(first.normalized)
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should filter each input with its own globs', () => {
+    const logic = fileCoverage('/project/src/logic.ts', [1])
+    const button = fileCoverage('/project/src/components/button.tsx', [1])
+    const coverageMap = { [logic.path]: logic, [button.path]: button }
+    const result = mergeCoverageMaps(
+      [
+        // e.g. vitest.config.ts excludes the components that vitest.component.config.ts includes
+        { name: 'unit', coverageMap, exclude: ['src/components/**'] },
+        { name: 'component', coverageMap, include: ['src/components/**'] },
+      ],
+      { relativeTo: '/project', logger: silentLogger }
+    )
+
+    expect(Object.keys(result.coverageMap).sort()).toEqual([button.path, logic.path])
+    expect(result.inputs.map(({ name, coverageMap }) => [name, Object.keys(coverageMap)])).toEqual([
+      ['unit', [logic.path]],
+      ['component', [button.path]],
+    ])
+  })
+
+  it('should send its messages to the logger', () => {
+    const logger = { info: vi.fn(), log: vi.fn(), warn: vi.fn() }
+
+    mergeCoverageMaps([{ name: 'unit', coverageMap: unit }, { name: 'browser', coverageMap: browser }], {
+      mergeMode: 'union',
+      logger,
+    })
+
+    expect(logger.info).toHaveBeenCalledWith('Union merge: items added by each input')
+    expect(logger.info).toHaveBeenCalledWith('  browser: 3 statement(s), 0 function(s), 0 branch(es)')
+  })
+})
+
+describe('summarizeCoverage', () => {
+  it('should total the metrics of a coverage map', () => {
+    const summary = summarizeCoverage({ '/project/src/a.ts': fileCoverage('/project/src/a.ts', [1, 0, 0, 3]) })
+
+    expect(summary.totalFiles).toBe(1)
+    expect(summary.statements).toEqual({ covered: 2, total: 4, pct: 50 })
+    expect(formatCoverageSummary(summary)).toContain('Statements   : 50.00% ( 2/4 )')
+  })
+
+  it('should report an empty coverage map as fully covered', () => {
+    const summary = summarizeCoverage({})
+
+    expect(summary.lines).toEqual({ covered: 0, total: 0, pct: 100 })
+    expect(formatCoverageSummary(summary)).toContain('Lines        : 100.00% ( 0/0 )')
+  })
+})
+
+describe('loadInputs and writeCoverageReports', () => {
+  let root: string
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'coverage-merge-'))
+    mkdirSync(join(root, 'unit'))
+    writeFileSync(
+      join(root, 'unit', 'coverage-final.json'),
+      JSON.stringify({ [join(root, 'src/a.ts')]: fileCoverage(join(root, 'src/a.ts'), [1]) })
+    )
+    mkdirSync(join(root, 'empty'))
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it('should load inputs and list directories without coverage', async () => {
+    const result = await loadInputs([join(root, 'unit'), join(root, 'empty')], { logger: silentLogger })
+
+    expect(result.inputs.map(({ name, file }) => [name, file])).toEqual([
+      ['unit', join(root, 'unit', 'coverage-final.json')],
+    ])
+    expect(result.skipped).toEqual([join(root, 'empty')])
+  })
+
+  it('should write coverage-final.json and the reports', async () => {
+    const { inputs } = await loadInputs([join(root, 'unit')], { logger: silentLogger })
+    const outputDir = join(root, 'merged')
+
+    writeCoverageReports(inputs[0].coverageMap, { outputDir, reporters: ['json', 'lcovonly'], relativeTo: root })
+
+    expect(existsSync(join(outputDir, 'coverage-final.json'))).toBe(true)
+    expect(existsSync(join(outputDir, 'lcov.info'))).toBe(true)
+  })
+
+  it('should pass reporterOptions to the reporters', async () => {
+    const { inputs } = await loadInputs([join(root, 'unit')], { logger: silentLogger })
+    const outputDir = join(root, 'merged')
+
+    writeCoverageReports(inputs[0].coverageMap, {
+      outputDir,
+      reporters: ['cobertura'],
+      reporterOptions: { cobertura: { file: 'custom.xml' } },
+      relativeTo: root,
+    })
+
+    expect(existsSync(join(outputDir, 'custom.xml'))).toBe(true)
+    expect(existsSync(join(outputDir, 'cobertura-coverage.xml'))).toBe(false)
+  })
+})
@@ -169,4 +169,228 @@ const x = 1`
     expect(result.importsRemoved).toBe(1)
     expect(Object.keys(coverageMap['/path/to/file.ts'].statementMap)).toHaveLength(1)
   })
+
+  it('should remove multi-line imports, type imports and re-exports', () => {
+    const mockSource = `import {
+  foo,
+  bar,
+} from 'bar'
+import type { Baz } from 'baz'
+export { qux } from './qux'
+export * from './all'
+/* leading comment */ import 'side-effect'
+export const x = foo(bar)`
+
+    vi.mocked(existsSync).mockReturnValue(true)
+    vi.mocked(readFileSync).mockReturnValue(mockSource)
+
+    const coverageMap: CoverageMapData = {
+      '/path/to/file.ts': {
+        path: '/path/to/file.ts',
+        statementMap: {
+          '0': { start: { line: 1, column: 0 }, end: { line: 4, column: 12 } },
+          '1': { start: { line: 5, column: 0 }, end: { line: 5, column: 30 } },
+          '2': { start: { line: 6, column: 0 }, end: { line: 6, column: 27 } },
+          '3': { start: { line: 7, column: 0 }, end: { line: 7, column: 21 } },
+          '4': { start: { line: 8, column: 22 }, end: { line: 8, column: 41 } },
+          '5': { start: { line: 9, column: 13 }, end: { line: 9, column: 25 } },
+        },
+        s: { '0': 1, '1': 1, '2': 1, '3': 1, '4': 1, '5': 1 },
+        fnMap: {},
+        f: {},
+        branchMap: {},
+        b: {},
+      },
+    }
+
+    const result = normalizeCoverage(coverageMap)
+
+    expect(result.importsRemoved).toBe(5)
+    expect(Object.keys(coverageMap['/path/to/file.ts'].statementMap)).toEqual(['5'])
+  })
+
+  it('should keep statements that only start on an import line', () => {
+    const mockSource = `import { foo } from 'bar'; foo()`
+
+    vi.mocked(existsSync).mockReturnValue(true)
+    vi.mocked(readFileSync).mockReturnValue(mockSource)
+
+    const coverageMap: CoverageMapData = {
+      '/path/to/file.ts': {
+        path: '/path/to/file.ts',
+        statementMap: {
+          '0': { start: { line: 1, column: 0 }, end: { line: 1, column: 26 } },
+          '1': { start: { line: 1, column: 27 }, end: { line: 1, column: 32 } },
+        },
+        s: { '0': 1, '1': 1 },
+        fnMap: {},
+        f: {},
+        branchMap: {},
+        b: {},
+      },
+    }
+
+    const result = normalizeCoverage(coverageMap)
+
+    expect(result.importsRemoved).toBe(1)
+    expect(Object.keys(coverageMap['/path/to/file.ts'].statementMap)).toEqual(['1'])
+  })
+
+  it('should remove directives in function bodies of JSX files', () => {
+    const mockSource = `export function Form() {
+  async function save() {
+    'use server'
+    await db.save()
+  }
+  return <form action={save} />
+}`
+
+    vi.mocked(existsSync).mockReturnValue(true)
+    vi.mocked(readFileSync).mockReturnValue(mockSource)
+
+    const coverageMap: CoverageMapData = {
+      '/path/to/form.tsx': {
+        path: '/path/to/form.tsx',
+        statementMap: {
+          '0': { start: { line: 3, column: 4 }, end: { line: 3, column: 16 } },
+          '1': { start: { line: 4, column: 4 }, end: { line: 4, column: 19 } },
+          '2': { start: { line: 6, column: 2 }, end: { line: 6, column: 31 } },
+        },
+        s: { '0': 1, '1': 1, '2': 1 },
+        fnMap: {},
+        f: {},
+        branchMap: {},
+        b: {},
+      },
+    }
+
+    const result = normalizeCoverage(coverageMap)
+
+    expect(result.directivesRemoved).toBe(1)
+    expect(Object.keys(coverageMap['/path/to/form.tsx'].statementMap)).toEqual(['1', '2'])
+  })
+
+  it('should parse the script blocks of single-file components', () => {
+    vi.mocked(existsSync).mockReturnValue(true)
+    vi.mocked(readFileSync).mockReturnValue(`<template><div /></template>
+<script setup lang="ts">
+import { ref } from 'vue'
+const count = ref<number>(0)
+</script>`)
+
+    const coverageMap: CoverageMapData = {
+      '/path/to/App.vue': {
+        path: '/path/to/App.vue',
+        statementMap: {
+          '0': { start: { line: 3, column: 0 }, end: { line: 3, column: 25 } },
+          '1': { start: { line: 4, column: 0 }, end: { line: 4, column: 28 } },
+        },
+        s: { '0': 1, '1': 1 },
+        fnMap: {},
+        f: {},
+        branchMap: {},
+        b: {},
+      },
+    }
+
+    const result = normalizeCoverage(coverageMap)
+
+    expect(result.importsRemoved).toBe(1)
+    expect(Object.keys(coverageMap['/path/to/App.vue'].statementMap)).toEqual(['1'])
+  })
+
+  it('should leave files that cannot be parsed untouched', () => {
+    vi.mocked(existsSync).mockReturnValue(true)
+    vi.mocked(readFileSync).mockReturnValue(`import { foo } from 'bar'
+const = ;;`)
+
+    const coverageMap: CoverageMapData = {
+      '/path/to/broken.ts': {
+        path: '/path/to/broken.ts',
+        statementMap: { '0': { start: { line: 1, column: 0 }, end: { line: 1, column: 25 } } },
+        s: { '0': 1 },
+        fnMap: {},
+        f: {},
+        branchMap: {},
+        b: {},
+      },
+    }
+
+    const result = normalizeCoverage(coverageMap)
+
+    expect(result.importsRemoved).toBe(0)
+    expect(Object.keys(coverageMap['/path/to/broken.ts'].statementMap)).toHaveLength(1)
+  })
+
+  it('should strip the configured directives only', () => {
+    const mockSource = `'use strict'
+'use client'
+function load() {
+  'use cache'
+  return 1
+}`
+
+    vi.mocked(existsSync).mockReturnValue(true)
+    vi.mocked(readFileSync).mockReturnValue(mockSource)
+
+    const coverageMap: CoverageMapData = {
+      '/path/to/file.ts': {
+        path: '/path/to/file.ts',
+        statementMap: {
+          '0': { start: { line: 1, column: 0 }, end: { line: 1, column: 12 } },
+          '1': { start: { line: 2, column: 0 }, end: { line: 2, column: 12 } },
+          '2': { start: { line: 4, column: 2 }, end: { line: 4, column: 13 } },
+          '3': { start: { line: 5, column: 2 }, end: { line: 5, column: 10 } },
+        },
+        s: { '0': 1, '1': 1, '2': 1, '3': 1 },
+        fnMap: {},
+        f: {},
+        branchMap: {},
+        b: {},
+      },
+    }
+
+    const result = normalizeCoverage(coverageMap, { directives: ['use strict', 'use cache'] })
+
+    expect(result.directivesRemoved).toBe(2)
+    expect(Object.keys(coverageMap['/path/to/file.ts'].statementMap)).toEqual(['1', '3'])
+  })
+
+  it('should apply strip rules and count removals per rule', () => {
+    const mockSource = `__banner__('v1.0.0')
+const x = 1
+track('load')
+track('ready')`
+
+    vi.mocked(existsSync).mockReturnValue(true)
+    vi.mocked(readFileSync).mockReturnValue(mockSource)
+
+    const coverageMap: CoverageMapData = {
+      '/path/to/file.ts': {
+        path: '/path/to/file.ts',
+        statementMap: {
+          '0': { start: { line: 1, column: 0 }, end: { line: 1, column: 20 } },
+          '1': { start: { line: 2, column: 0 }, end: { line: 2, column: 11 } },
+          '2': { start: { line: 3, column: 0 }, end: { line: 3, column: 13 } },
+          '3': { start: { line: 4, column: 0 }, end: { line: 4, column: 14 } },
+        },
+        s: { '0': 1, '1': 1, '2': 1, '3': 1 },
+        fnMap: {},
+        f: {},
+        branchMap: {},
+        b: {},
+      },
+    }
+
+    const result = normalizeCoverage(coverageMap, {
+      stripRules: [
+        { name: 'banner', match: '^__banner__' },
+        { name: 'tracking', match: (statement) => statement.text.startsWith('track(') },
+        { name: 'unused', match: /never/ },
+      ],
+    })
+
+    expect(result.ruleCounts).toEqual({ banner: 1, tracking: 2, unused: 0 })
+    expect(Object.keys(coverageMap['/path/to/file.ts'].statementMap)).toEqual(['1'])
+  })
 })
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { remapPath, remapCoveragePaths, relativizeCoveragePaths } from '../paths.js'
+import type { CoverageMapData, FileCoverageData } from 'istanbul-lib-coverage'
+
+function fileCoverage(path: string, count: number): FileCoverageData {
+  return {
+    path,
+    statementMap: { '0': { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } } },
+    s: { '0': count },
+    fnMap: {},
+    f: {},
+    branchMap: {},
+    b: {},
+  }
+}
+
+describe('remapPath', () => {
+  it('should rewrite matching directory prefixes', () => {
+    const mappings = [{ from: '/builds/app', to: '/home/runner/work/app' }]
+
+    expect(remapPath('/builds/app/src/a.ts', mappings)).toBe('/home/runner/work/app/src/a.ts')
+    expect(remapPath('/builds/application/a.ts', mappings)).toBe('/builds/application/a.ts')
+  })
+
+  it('should ignore trailing slashes in prefixes', () => {
+    expect(remapPath('/builds/app/a.ts', [{ from: '/builds/app/', to: '/work/' }])).toBe('/work/a.ts')
+  })
+
+  it('should apply regex replacements with references', () => {
+    const mappings = [{ from: /^\/builds\/[^/]+\/(.*)$/, to: '/work/$1' }]
+
+    expect(remapPath('/builds/job-42/src/a.ts', mappings)).toBe('/work/src/a.ts')
+  })
+
+  it('should apply mappings in order', () => {
+    const mappings = [
+      { from: '/a', to: '/b' },
+      { from: '/b', to: '/c' },
+    ]
+
+    expect(remapPath('/a/file.ts', mappings)).toBe('/c/file.ts')
+  })
+})
+
+describe('remapCoveragePaths', () => {
+  it('should rewrite both keys and file paths', () => {
+    const coverage: CoverageMapData = {
+      '/builds/app/src/a.ts': fileCoverage('/builds/app/src/a.ts', 1),
+    }
+
+    const result = remapCoveragePaths(coverage, [{ from: '/builds/app', to: '/work' }])
+
+    expect(Object.keys(result)).toEqual(['/work/src/a.ts'])
+    expect(result['/work/src/a.ts'].path).toBe('/work/src/a.ts')
+  })
+
+  it('should merge files that map to the same path', () => {
+    const coverage: CoverageMapData = {
+      '/x/a.ts': fileCoverage('/x/a.ts', 1),
+      '/y/a.ts': fileCoverage('/y/a.ts', 2),
+    }
+
+    const result = remapCoveragePaths(coverage, [{ from: /^\/[xy]\//, to: '/z/' }])
+
+    expect(Object.keys(result)).toEqual(['/z/a.ts'])
+    expect(result['/z/a.ts'].s['0']).toBe(3)
+  })
+})
+
+describe('relativizeCoveragePaths', () => {
+  it('should make paths relative to the root', () => {
+    const coverage: CoverageMapData = {
+      '/project/src/a.ts': fileCoverage('/project/src/a.ts', 1),
+    }
+
+    const result = relativizeCoveragePaths(coverage, '/project')
+
+    expect(Object.keys(result)).toEqual(['src/a.ts'])
+    expect(result['src/a.ts'].path).toBe('src/a.ts')
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { existsSync, mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { Vitest } from 'vitest/node'
+import { coverageMergeReporter } from '../reporter.js'
+
+describe('coverageMergeReporter', () => {
+  let root: string
+  let closeHandlers: Array<() => unknown>
+
+  const createVitest = (coverage: { enabled: boolean; reportOnFailure: boolean; reportsDirectory?: string }) =>
+    ({
+      config: { root, coverage },
+      logger: { log: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      onClose: (fn: () => unknown) => closeHandlers.push(fn),
+    }) as unknown as Vitest
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'coverage-reporter-'))
+    closeHandlers = []
+    for (const name of ['unit', 'browser']) {
+      mkdirSync(join(root, name))
+      writeFileSync(join(root, name, 'coverage-final.json'), '{}')
+    }
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  const options = () => ({
+    inputDirs: [join(root, 'unit'), join(root, 'browser')],
+    outputDir: join(root, 'merged'),
+    reporters: ['json'],
+  })
+
+  it('should merge once vitest closes after a run', async () => {
+    const reporter = coverageMergeReporter(options())
+    const vitest = createVitest({ enabled: true, reportOnFailure: false })
+    reporter.onInit!(vitest)
+
+    await reporter.onTestRunEnd!([], [], 'passed')
+    expect(existsSync(join(root, 'merged'))).toBe(false)
+
+    await Promise.all(closeHandlers.map((fn) => fn()))
+    expect(existsSync(join(root, 'merged', 'coverage-final.json'))).toBe(true)
+    expect(vitest.logger.log).toHaveBeenCalledWith(`Loading: ${join(root, 'unit', 'coverage-final.json')}`)
+  })
+
+  it('should merge the coverage of the vitest configs when no inputs are given', async () => {
+    writeFileSync(join(root, 'vitest.config.ts'), `export default { test: { coverage: { reportsDirectory: 'unit' } } }`)
+    const reporter = coverageMergeReporter({ outputDir: join(root, 'merged'), reporters: ['json'] })
+    const vitest = createVitest({ enabled: true, reportOnFailure: false, reportsDirectory: join(root, 'browser') })
+    reporter.onInit!(vitest)
+
+    await reporter.onTestRunEnd!([], [], 'passed')
+    await Promise.all(closeHandlers.map((fn) => fn()))
+
+    expect(existsSync(join(root, 'merged', 'coverage-final.json'))).toBe(true)
+    expect(vitest.logger.log).toHaveBeenCalledWith(`Loading: ${join(root, 'unit', 'coverage-final.json')}`)
+    expect(vitest.logger.log).toHaveBeenCalledWith(`Loading: ${join(root, 'browser', 'coverage-final.json')}`)
+  })
+
+  it('should merge after each run in watch mode', async () => {
+    const reporter = coverageMergeReporter(options())
+    reporter.onInit!(createVitest({ enabled: true, reportOnFailure: false }))
+
+    await reporter.onWatcherStart!()
+    expect(existsSync(join(root, 'merged'))).toBe(false)
+
+    await reporter.onTestRunEnd!([], [], 'passed')
+    await reporter.onWatcherStart!()
+    expect(existsSync(join(root, 'merged', 'coverage-final.json'))).toBe(true)
+  })
+
+  it('should not merge when vitest wrote no coverage', async () => {
+    const reporter = coverageMergeReporter(options())
+    reporter.onInit!(createVitest({ enabled: true, reportOnFailure: false }))
+
+    await reporter.onTestRunEnd!([], [], 'failed')
+    await Promise.all(closeHandlers.map((fn) => fn()))
+
+    expect(existsSync(join(root, 'merged'))).toBe(false)
+  })
+})
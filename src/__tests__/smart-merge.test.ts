@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { smartMergeCoverage } from '../smart-merge.js'
+import { smartMergeCoverage, smartMergeCoverageWithReport } from '../smart-merge.js'
 import type { CoverageMapData, FileCoverageData } from 'istanbul-lib-coverage'
 
 describe('smartMergeCoverage', () => {
@@ -242,3 +242,149 @@ describe('smartMergeCoverage', () => {
     expect(result['/path/to/file.ts'].b['0']).toEqual([1, 1])
   })
 })
+
+describe('smartMergeCoverage countStrategy', () => {
+  const loc = { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } }
+  const shard = (s: number, f: number, b: number[]): CoverageMapData => ({
+    '/path/to/file.ts': {
+      path: '/path/to/file.ts',
+      statementMap: { '0': loc },
+      s: { '0': s },
+      fnMap: { '0': { name: 'fn', decl: loc, loc, line: 1 } },
+      f: { '0': f },
+      branchMap: { '0': { type: 'if', loc, locations: [loc, loc], line: 1 } },
+      b: { '0': b },
+    } as FileCoverageData,
+  })
+
+  it('should take the max count by default', () => {
+    const result = smartMergeCoverage([shard(2, 1, [2, 0]), shard(3, 0, [1, 4])])['/path/to/file.ts']
+
+    expect(result.s).toEqual({ '0': 3 })
+    expect(result.f).toEqual({ '0': 1 })
+    expect(result.b).toEqual({ '0': [2, 4] })
+  })
+
+  it('should sum counts with the sum strategy', () => {
+    const result = smartMergeCoverage([shard(2, 1, [2, 0]), shard(3, 0, [1, 4])], true, 'sum')['/path/to/file.ts']
+
+    expect(result.s).toEqual({ '0': 5 })
+    expect(result.f).toEqual({ '0': 1 })
+    expect(result.b).toEqual({ '0': [3, 4] })
+  })
+
+  it('should reduce counts to 0/1 with the binary strategy', () => {
+    const result = smartMergeCoverage([shard(2, 0, [2, 0]), shard(3, 0, [1, 0])], true, 'binary')['/path/to/file.ts']
+
+    expect(result.s).toEqual({ '0': 1 })
+    expect(result.f).toEqual({ '0': 0 })
+    expect(result.b).toEqual({ '0': [1, 0] })
+  })
+
+  it('should apply the binary strategy to files from a single input', () => {
+    const result = smartMergeCoverage([shard(7, 2, [5, 0]), {}], true, 'binary')['/path/to/file.ts']
+
+    expect(result.s).toEqual({ '0': 1 })
+    expect(result.f).toEqual({ '0': 1 })
+    expect(result.b).toEqual({ '0': [1, 0] })
+  })
+})
+
+describe('smartMergeCoverage matching', () => {
+  it('should not let a covered statement mark another one on the same line as covered', () => {
+    const stmt = (column: number) => ({ start: { line: 1, column }, end: { line: 1, column: column + 5 } })
+    const unit: CoverageMapData = {
+      '/path/to/file.ts': {
+        path: '/path/to/file.ts',
+        statementMap: { '0': stmt(0), '1': stmt(10) },
+        s: { '0': 1, '1': 0 },
+        fnMap: {},
+        f: {},
+        branchMap: {},
+        b: {},
+      } as FileCoverageData,
+    }
+    const browser: CoverageMapData = {
+      '/path/to/file.ts': {
+        path: '/path/to/file.ts',
+        statementMap: { '0': stmt(0), '1': stmt(10) },
+        s: { '0': 2, '1': 0 },
+        fnMap: {},
+        f: {},
+        branchMap: {},
+        b: {},
+      } as FileCoverageData,
+    }
+
+    const result = smartMergeCoverage([unit, browser])
+
+    expect(result['/path/to/file.ts'].s).toEqual({ '0': 2, '1': 0 })
+  })
+})
+
+describe('smartMergeCoverage branch arms', () => {
+  const range = (startColumn: number, endColumn: number) => ({
+    start: { line: 3, column: startColumn },
+    end: { line: 3, column: endColumn },
+  })
+  const file = (branchMap: FileCoverageData['branchMap'], b: FileCoverageData['b']): CoverageMapData => ({
+    '/path/to/file.ts': {
+      path: '/path/to/file.ts',
+      statementMap: {},
+      s: {},
+      fnMap: {},
+      f: {},
+      branchMap,
+      b,
+    } as FileCoverageData,
+  })
+
+  it('should merge arms by range when their order differs', () => {
+    const unit = file(
+      { '0': { type: 'cond-expr', loc: range(0, 20), locations: [range(4, 9), range(12, 20)], line: 3 } },
+      { '0': [5, 0] }
+    )
+    const browser = file(
+      { '0': { type: 'cond-expr', loc: range(0, 20), locations: [range(12, 20), range(4, 9)], line: 3 } },
+      { '0': [0, 7] }
+    )
+
+    const result = smartMergeCoverageWithReport([unit, browser])
+
+    // browser's arm order is kept; merging by index would have given [5, 7]
+    expect(result.coverageMap['/path/to/file.ts'].b['0']).toEqual([0, 7])
+    expect(result.branchMismatches).toEqual([])
+  })
+
+  it('should flag branches with different shapes and only merge matching arms', () => {
+    const ternary = file(
+      { '0': { type: 'cond-expr', loc: range(0, 30), locations: [range(4, 9), range(12, 30)], line: 3 } },
+      { '0': [1, 0] }
+    )
+    const logical = file(
+      {
+        '0': {
+          type: 'binary-expr',
+          loc: range(0, 30),
+          locations: [range(0, 2), range(12, 20), range(24, 30)],
+          line: 3,
+        },
+      },
+      { '0': [4, 4, 4] }
+    )
+
+    const result = smartMergeCoverageWithReport([logical, ternary])
+
+    // The ternary (fewer items, listed last) is kept; only its second arm overlaps an arm of the chain
+    expect(result.coverageMap['/path/to/file.ts'].branchMap['0'].type).toBe('cond-expr')
+    expect(result.coverageMap['/path/to/file.ts'].b['0']).toEqual([1, 4])
+    expect(result.branchMismatches).toEqual([
+      {
+        file: '/path/to/file.ts',
+        line: 3,
+        merged: { type: 'cond-expr', arms: 2 },
+        input: { type: 'binary-expr', arms: 3 },
+      },
+    ])
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { checkThresholds, formatThresholdFailures } from '../thresholds.js'
+import type { CoverageMapData, FileCoverageData } from 'istanbul-lib-coverage'
+
+function fileWithStatements(path: string, counts: number[]): FileCoverageData {
+  const statementMap: FileCoverageData['statementMap'] = {}
+  const s: FileCoverageData['s'] = {}
+  counts.forEach((count, i) => {
+    statementMap[String(i)] = { start: { line: i + 1, column: 0 }, end: { line: i + 1, column: 10 } }
+    s[String(i)] = count
+  })
+  return { path, statementMap, s, fnMap: {}, f: {}, branchMap: {}, b: {} }
+}
+
+describe('checkThresholds', () => {
+  const coverage: CoverageMapData = {
+    '/project/src/core/a.ts': fileWithStatements('/project/src/core/a.ts', [1, 1, 1, 0]),
+    '/project/src/ui/b.ts': fileWithStatements('/project/src/ui/b.ts', [1, 0]),
+    '/project/src/ui/c.ts': fileWithStatements('/project/src/ui/c.ts', [1, 1]),
+  }
+
+  it('should pass when aggregated totals meet the thresholds', () => {
+    // 6 of 8 statements covered = 75%
+    const result = checkThresholds(coverage, { statements: 75, lines: 75 }, '/project')
+
+    expect(result.passed).toBe(true)
+    expect(result.failures).toEqual([])
+  })
+
+  it('should report global metrics below the threshold', () => {
+    const result = checkThresholds(coverage, { statements: 80 }, '/project')
+
+    expect(result.passed).toBe(false)
+    expect(result.failures).toEqual([
+      { scope: 'global', metric: 'statements', actual: 75, expected: 80 },
+    ])
+  })
+
+  it('should check each file individually in perFile mode', () => {
+    const result = checkThresholds(coverage, { statements: 60, perFile: true }, '/project')
+
+    expect(result.failures).toEqual([
+      { scope: 'src/ui/b.ts', metric: 'statements', actual: 50, expected: 60 },
+    ])
+  })
+
+  it('should check glob overrides separately from the global thresholds', () => {
+    const result = checkThresholds(
+      coverage,
+      { statements: 70, globs: { 'src/core/**': { statements: 90 } } },
+      '/project'
+    )
+
+    // src/core: 3/4 = 75% fails 90; remaining files: 3/4 = 75% passes 70
+    expect(result.failures).toEqual([
+      { scope: 'src/core/**', metric: 'statements', actual: 75, expected: 90 },
+    ])
+  })
+
+  it('should apply the global perFile setting to glob overrides that do not set it', () => {
+    const inherited = checkThresholds(
+      coverage,
+      { perFile: true, globs: { 'src/ui/**': { statements: 60 } } },
+      '/project'
+    )
+    const overridden = checkThresholds(
+      coverage,
+      { perFile: true, globs: { 'src/ui/**': { statements: 60, perFile: false } } },
+      '/project'
+    )
+
+    // src/ui/b.ts: 1/2 = 50% fails 60 on its own; src/ui as a whole (3/4 = 75%) passes
+    expect(inherited.failures).toEqual([
+      { scope: 'src/ui/b.ts', metric: 'statements', actual: 50, expected: 60 },
+    ])
+    expect(overridden.failures).toEqual([])
+  })
+})
+
+describe('formatThresholdFailures', () => {
+  it('should format failures as an aligned table', () => {
+    const table = formatThresholdFailures([
+      { scope: 'global', metric: 'lines', actual: 75, expected: 80 },
+      { scope: 'src/core/**', metric: 'branches', actual: 50.5, expected: 90 },
+    ])
+
+    expect(table.split('\n')).toEqual([
+      'Scope       | Metric   | Actual | Threshold',
+      '------------|----------|--------|----------',
+      'global      | lines    | 75.00% | 80%',
+      'src/core/** | branches | 50.50% | 90%',
+    ])
+  })
+})
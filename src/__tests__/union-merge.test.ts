@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { parseLcov } from '../lcov.js'
+import { unionMergeCoverage } from '../union-merge.js'
+import type { CoverageMapData, FileCoverageData } from 'istanbul-lib-coverage'
+
+const range = (line: number, startColumn: number, endColumn: number) => ({
+  start: { line, column: startColumn },
+  end: { line, column: endColumn },
+})
+
+describe('unionMergeCoverage', () => {
+  const unit: CoverageMapData = {
+    '/path/to/file.ts': {
+      path: '/path/to/file.ts',
+      statementMap: { '0': range(1, 0, 10), '1': range(2, 0, 10) },
+      s: { '0': 1, '1': 0 },
+      fnMap: { '0': { name: 'a', decl: range(1, 9, 10), loc: range(1, 0, 10), line: 1 } },
+      f: { '0': 1 },
+      branchMap: {},
+      b: {},
+    } as FileCoverageData,
+  }
+  const browser: CoverageMapData = {
+    '/path/to/file.ts': {
+      path: '/path/to/file.ts',
+      // Unit's statement 1 with a drifted end column, and a statement unit doesn't have
+      statementMap: { '0': range(2, 0, 20), '1': range(1, 0, 10), '2': range(3, 0, 10) },
+      s: { '0': 2, '1': 3, '2': 0 },
+      fnMap: {},
+      f: {},
+      branchMap: { '0': { type: 'if', loc: range(3, 0, 10), locations: [range(3, 0, 5), range(3, 5, 10)], line: 3 } },
+      b: { '0': [0, 1] },
+    } as FileCoverageData,
+  }
+
+  it('should keep items that exist in any input', () => {
+    const { coverageMap } = unionMergeCoverage([unit, browser])
+    const file = coverageMap['/path/to/file.ts'] as FileCoverageData
+
+    expect(file.statementMap).toEqual({
+      '0': range(1, 0, 10),
+      '1': range(2, 0, 10),
+      '2': range(3, 0, 10),
+    })
+    expect(file.s).toEqual({ '0': 3, '1': 2, '2': 0 })
+    expect(file.f).toEqual({ '0': 1 })
+    expect(file.b).toEqual({ '0': [0, 1] })
+  })
+
+  it('should report the items each input added', () => {
+    const { contributions } = unionMergeCoverage([unit, browser])
+
+    expect(contributions).toEqual([
+      { statements: 2, functions: 1, branches: 0 },
+      { statements: 1, functions: 0, branches: 1 },
+    ])
+  })
+
+  it('should combine counts with the count strategy', () => {
+    const { coverageMap } = unionMergeCoverage([unit, browser, unit], 'sum')
+
+    expect((coverageMap['/path/to/file.ts'] as FileCoverageData).s).toEqual({ '0': 5, '1': 2, '2': 0 })
+  })
+
+  it('should not count items of an LCOV input twice', () => {
+    const lcov = parseLcov('SF:/path/to/file.ts\nFN:1,a\nFNDA:0,a\nDA:1,0\nDA:2,4\nDA:4,1\nend_of_record\n')
+    const { coverageMap, contributions } = unionMergeCoverage([unit, lcov])
+    const file = coverageMap['/path/to/file.ts'] as FileCoverageData
+
+    // Lines 1 and 2 are unit's statements; only line 4 is new
+    expect(Object.values(file.statementMap).map(({ start }) => start.line)).toEqual([1, 2, 4])
+    expect(file.s).toEqual({ '0': 1, '1': 4, '2': 1 })
+    expect(file.f).toEqual({ '0': 1 })
+    expect(contributions[1]).toEqual({ statements: 1, functions: 0, branches: 0 })
+  })
+
+  it('should copy files found in a single input', () => {
+    const other: CoverageMapData = { '/path/to/other.ts': { ...unit['/path/to/file.ts'], path: '/path/to/other.ts' } }
+    const { coverageMap } = unionMergeCoverage([unit, other], 'binary')
+
+    expect(Object.keys(coverageMap)).toEqual(['/path/to/file.ts', '/path/to/other.ts'])
+    expect((coverageMap['/path/to/other.ts'] as FileCoverageData).s).toEqual({ '0': 1, '1': 0 })
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { FileCoverageData } from 'istanbul-lib-coverage'
+import { addUntestedFiles, emptyFileCoverage } from '../untested.js'
+
+describe('emptyFileCoverage', () => {
+  it('should lay out statements, functions and branches with zero counts', () => {
+    const source = `import { format } from './format'
+
+interface Options { loud?: boolean }
+
+export function greet(name = 'world', options: Options = {}) {
+  const message = format(name)
+  if (options.loud) {
+    return message.toUpperCase()
+  }
+  return options.loud === false ? message : message || 'hi'
+}
+
+export const shout = (name: string) => greet(name, { loud: true })
+`
+    const data = emptyFileCoverage('/project/src/greet.ts', source)!
+
+    expect(Object.values(data.statementMap).map(({ start }) => start.line)).toEqual([6, 7, 8, 10, 13, 13])
+    expect(Object.values(data.s).every((count) => count === 0)).toBe(true)
+    expect(Object.values(data.fnMap).map(({ name }) => name)).toEqual(['greet', '(anonymous_1)'])
+    expect(Object.values(data.branchMap).map(({ type, locations }) => [type, locations.length])).toEqual([
+      ['default-arg', 1],
+      ['default-arg', 1],
+      ['if', 2],
+      ['cond-expr', 2],
+      ['binary-expr', 2],
+    ])
+    expect(data.b['4']).toEqual([0, 0])
+  })
+
+  it('should parse the script blocks of Vue components', () => {
+    const source = `<template><button @click="count++">{{ count }}</button></template>
+<script setup lang="ts">
+const count = ref<number>(0)
+</script>
+`
+    const data = emptyFileCoverage('/project/src/Counter.vue', source)!
+
+    expect(data.statementMap['0']).toEqual({ start: { line: 3, column: 14 }, end: { line: 3, column: 28 } })
+  })
+})
+
+describe('addUntestedFiles', () => {
+  let root: string
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'coverage-untested-'))
+    mkdirSync(join(root, 'src'))
+    writeFileSync(join(root, 'src', 'tested.ts'), 'export const a = 1\n')
+    writeFileSync(join(root, 'src', 'untested.ts'), 'export function b() {\n  return 2\n}\n')
+    writeFileSync(join(root, 'src', 'types.ts'), 'export type C = string\n')
+    writeFileSync(join(root, 'src', 'globals.d.ts'), 'declare const d: number\n')
+    writeFileSync(join(root, 'src', 'Button.stories.tsx'), 'export default { title: "Button" }\n')
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it('should add the files no input loaded', () => {
+    const tested = join(root, 'src', 'tested.ts')
+    const coverageMap = { [tested]: { path: tested } as FileCoverageData }
+
+    const result = addUntestedFiles(coverageMap, { include: ['src/**'], exclude: ['**/*.stories.tsx'], root })
+
+    expect(result.added).toEqual([join(root, 'src', 'untested.ts')])
+    expect(Object.keys(result.coverageMap)).toEqual([tested, join(root, 'src', 'untested.ts')])
+    expect(result.coverageMap[tested]).toBe(coverageMap[tested])
+    expect(result.failed).toEqual([])
+  })
+})
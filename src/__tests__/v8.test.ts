@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { pathToFileURL } from 'url'
+import ts from 'typescript'
+import { silentLogger } from '../logger.js'
+import { convertV8Coverage, findV8CoverageFiles, loadV8Coverage } from '../v8.js'
+
+const source = `function used() {
+  return 1
+}
+function unused() {
+  return 2
+}
+used()
+`
+
+describe('V8 coverage conversion', () => {
+  let dir: string
+  let scriptPath: string
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'v8-coverage-'))
+    scriptPath = join(dir, 'script.js')
+    writeFileSync(scriptPath, source)
+  })
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  function scriptCoverage() {
+    const unusedStart = source.indexOf('function unused')
+    const unusedEnd = source.indexOf('used()\n', unusedStart + 'function unused'.length)
+    return {
+      scriptId: '1',
+      url: pathToFileURL(scriptPath).href,
+      functions: [
+        {
+          functionName: '',
+          isBlockCoverage: true,
+          ranges: [{ startOffset: 0, endOffset: source.length, count: 1 }],
+        },
+        {
+          functionName: 'used',
+          isBlockCoverage: false,
+          ranges: [{ startOffset: 0, endOffset: source.indexOf('function unused'), count: 1 }],
+        },
+        {
+          functionName: 'unused',
+          isBlockCoverage: false,
+          ranges: [{ startOffset: unusedStart, endOffset: unusedEnd, count: 0 }],
+        },
+      ],
+    }
+  }
+
+  it('should convert script coverage to istanbul coverage', async () => {
+    const result = await convertV8Coverage([scriptCoverage()])
+    const file = result[scriptPath]
+
+    expect(file).toBeDefined()
+    const functions = Object.values(file.fnMap).map((fn) => fn.name)
+    expect(functions).toEqual(['used', 'unused'])
+    expect(Object.values(file.f)).toEqual([1, 0])
+  })
+
+  it('should skip scripts that are not local files', async () => {
+    const result = await convertV8Coverage([
+      { scriptId: '2', url: 'node:internal/modules/run_main', functions: [] },
+      { scriptId: '3', url: 'http://localhost:5173/src/app.ts', functions: [] },
+    ])
+
+    expect(result).toEqual({})
+  })
+
+  it('should skip scripts whose file is not the code that ran', async () => {
+    const logger = { info: vi.fn(), log: vi.fn(), warn: vi.fn() }
+    const script = scriptCoverage()
+    // e.g. a .ts file that a loader transformed before running it
+    script.functions[0].ranges[0].endOffset = source.length + 40
+
+    expect(await convertV8Coverage([script], logger)).toEqual({})
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining(`Skipped V8 coverage for ${scriptPath}`))
+  })
+
+  it('should map compiled code back to its original source', async () => {
+    const original = `interface Options {
+  verbose: boolean
+}
+
+export function used(options: Options): number {
+  return options.verbose ? 1 : 0
+}
+
+export function unused(): number {
+  return 2
+}
+
+used({ verbose: true })
+`
+    mkdirSync(join(dir, 'src'))
+    mkdirSync(join(dir, 'dist'))
+    const originalPath = join(dir, 'src', 'lib.ts')
+    const compiledPath = join(dir, 'dist', 'lib.js')
+    const { outputText: compiled, sourceMapText } = ts.transpileModule(original, {
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022, sourceMap: true },
+      fileName: 'lib.ts',
+    })
+    writeFileSync(originalPath, original)
+    writeFileSync(compiledPath, compiled)
+    writeFileSync(`${compiledPath}.map`, JSON.stringify({ ...JSON.parse(sourceMapText!), sources: ['../src/lib.ts'] }))
+
+    const usedStart = compiled.indexOf('export function used')
+    const usedEnd = compiled.indexOf('}', usedStart) + 1
+    const unusedStart = compiled.indexOf('export function unused')
+    const unusedEnd = compiled.indexOf('}', unusedStart) + 1
+    const result = await convertV8Coverage(
+      [
+        {
+          scriptId: '4',
+          url: pathToFileURL(compiledPath).href,
+          functions: [
+            {
+              functionName: '',
+              isBlockCoverage: true,
+              ranges: [{ startOffset: 0, endOffset: compiled.length, count: 1 }],
+            },
+            {
+              functionName: 'used',
+              isBlockCoverage: true,
+              ranges: [{ startOffset: usedStart, endOffset: usedEnd, count: 1 }],
+            },
+            {
+              functionName: 'unused',
+              isBlockCoverage: true,
+              ranges: [{ startOffset: unusedStart, endOffset: unusedEnd, count: 0 }],
+            },
+          ],
+        },
+      ],
+      silentLogger
+    )
+
+    expect(Object.keys(result)).toEqual([originalPath])
+    const { fnMap, f } = result[originalPath]
+    // The interface is gone from the compiled code, so these lines only hold in the original
+    expect(Object.values(fnMap).map(({ name, loc }) => [name, loc.start.line])).toEqual([
+      ['used', 5],
+      ['unused', 9],
+    ])
+    expect(Object.values(f)).toEqual([1, 0])
+  })
+
+  it('should find and load coverage dumps from a directory', async () => {
+    writeFileSync(join(dir, 'coverage-final.json'), '{}')
+    const dumpFile = join(dir, 'coverage-1234-1-0.json')
+    writeFileSync(dumpFile, JSON.stringify({ result: [scriptCoverage()] }))
+
+    const files = findV8CoverageFiles(dir)
+    expect(files).toEqual([dumpFile])
+
+    const result = await loadV8Coverage(files)
+    expect(Object.keys(result)).toEqual([scriptPath])
+  })
+})
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, watchFile, type Stats } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { formatSummaryDelta, inputWatchPath, watchFiles, type CoverageTotals } from '../watch.js'
+
+// fs.watchFile polls from libuv, which fake timers can't drive; the tests call its listeners instead
+vi.mock('fs', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('fs')>()),
+  watchFile: vi.fn(),
+  unwatchFile: vi.fn(),
+}))
+
+/** Simulate a poll that sees `file` with a new modification time */
+const touch = (file: string, mtimeMs = Date.now()) => {
+  const calls = vi.mocked(watchFile).mock.calls.filter(([path]) => path === file)
+  const listener = calls[calls.length - 1][2] as (current: Stats, previous: Stats) => void
+  listener({ mtimeMs, size: 1 } as Stats, { mtimeMs: 0, size: 0 } as Stats)
+}
+
+describe('watch', () => {
+  let root: string
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'coverage-watch-'))
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  describe('inputWatchPath', () => {
+    it('should watch the coverage file of an input directory', () => {
+      mkdirSync(join(root, 'unit'))
+      writeFileSync(join(root, 'unit', 'lcov.info'), '')
+
+      expect(inputWatchPath(join(root, 'unit'))).toBe(join(root, 'unit', 'lcov.info'))
+    })
+
+    it('should expect coverage-final.json in directories without coverage', () => {
+      expect(inputWatchPath(join(root, 'browser'))).toBe(join(root, 'browser', 'coverage-final.json'))
+      expect(inputWatchPath(join(root, 'e2e.json'))).toBe(join(root, 'e2e.json'))
+    })
+  })
+
+  describe('watchFiles', () => {
+    const unit = '/coverage/unit.json'
+    const browser = '/coverage/browser.json'
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+      vi.mocked(watchFile).mockClear()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should report changes once the files are quiet', async () => {
+      const calls: string[][] = []
+      const watcher = watchFiles([unit, browser], (changed) => {
+        calls.push(changed.sort())
+      }, { debounce: 100 })
+
+      touch(unit)
+      await vi.advanceTimersByTimeAsync(30)
+      touch(browser)
+      await vi.advanceTimersByTimeAsync(99)
+      expect(calls).toEqual([])
+
+      await vi.advanceTimersByTimeAsync(1)
+      expect(calls).toEqual([[browser, unit].sort()])
+      watcher.close()
+    })
+
+    it('should ignore polls where only the access time changed', async () => {
+      const onChange = vi.fn()
+      const watcher = watchFiles([unit], onChange, { debounce: 100 })
+      const listener = vi.mocked(watchFile).mock.calls[0][2] as (current: Stats, previous: Stats) => void
+
+      listener({ mtimeMs: 1, size: 1 } as Stats, { mtimeMs: 1, size: 1 } as Stats)
+      await vi.advanceTimersByTimeAsync(500)
+
+      expect(onChange).not.toHaveBeenCalled()
+      watcher.close()
+    })
+
+    it('should not overlap calls', async () => {
+      let running = 0
+      let overlapped = false
+      const calls: string[][] = []
+      const watcher = watchFiles([unit], async (changed) => {
+        overlapped ||= running > 0
+        running++
+        calls.push(changed)
+        await new Promise((resolve) => setTimeout(resolve, 100))
+        running--
+      }, { debounce: 20, immediate: true })
+
+      await vi.advanceTimersByTimeAsync(40)
+      touch(unit)
+      await vi.advanceTimersByTimeAsync(300)
+
+      expect(overlapped).toBe(false)
+      expect(calls).toEqual([[], [unit]])
+      watcher.close()
+    })
+
+    it('should call onChange again when refreshed, after a running call', async () => {
+      const calls: string[][] = []
+      const watcher = watchFiles([unit], async (changed) => {
+        calls.push(changed)
+        await new Promise((resolve) => setTimeout(resolve, 100))
+      }, { debounce: 20, immediate: true })
+
+      await vi.advanceTimersByTimeAsync(10)
+      watcher.refresh()
+      await vi.advanceTimersByTimeAsync(300)
+      expect(calls).toEqual([[], []])
+
+      watcher.refresh()
+      touch(unit)
+      await vi.advanceTimersByTimeAsync(300)
+      expect(calls).toEqual([[], [], [unit]])
+      watcher.close()
+    })
+
+    it('should stop calling onChange once closed', async () => {
+      const onChange = vi.fn()
+      const watcher = watchFiles([unit], onChange, { debounce: 20 })
+
+      touch(unit)
+      watcher.close()
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(onChange).not.toHaveBeenCalled()
+    })
+  })
+})
+
+describe('formatSummaryDelta', () => {
+  const totals = (covered: number, total: number) => ({ covered, total, pct: (covered / total) * 100 })
+
+  it('should show the change of each metric', () => {
+    const previous: CoverageTotals = {
+      statements: totals(40, 50),
+      branches: totals(10, 20),
+      functions: totals(5, 10),
+      lines: totals(40, 50),
+    }
+    const current: CoverageTotals = { ...previous, statements: totals(45, 50), functions: totals(4, 10) }
+
+    expect(formatSummaryDelta(previous, current)).toBe(
+      'Statements +10.00% (+5 covered, 0 total), Branches 0.00% (0 covered, 0 total), ' +
+        'Functions -10.00% (-1 covered, 0 total), Lines 0.00% (0 covered, 0 total)'
+    )
+  })
+})
@@ -0,0 +1,147 @@
+import type { CoverageMapData, FileCoverageData } from 'istanbul-lib-coverage'
+import { projectFileCoverage } from './smart-merge.js'
+import { formatTable } from './format.js'
+
+export interface AttributionInput {
+  /** Label of the input, e.g. 'unit' or 'browser' */
+  name: string
+  coverageMap: CoverageMapData
+}
+
+/**
+ * Names of the inputs that hit each item of a merged file, keyed like the
+ * statementMap/fnMap/branchMap of the merged coverage. Branches list one
+ * array of names per arm.
+ */
+export interface FileAttribution {
+  statements: Record<string, string[]>
+  functions: Record<string, string[]>
+  branches: Record<string, string[][]>
+}
+
+export interface CoverageAttribution {
+  inputs: string[]
+  files: Record<string, FileAttribution>
+}
+
+export interface ExclusiveCounts {
+  statements: number
+  functions: number
+  branches: number
+}
+
+export interface AttributionSummary {
+  file: string
+  /** Items covered by that input and no other, per input name */
+  onlyBy: Record<string, ExclusiveCounts>
+}
+
+/**
+ * Work out which inputs covered each statement, function and branch arm of the merged coverage.
+ *
+ * Counts are transferred from each input onto the merged structure with the same
+ * matching the merge uses, so an item is attributed to an input exactly when that
+ * input contributed a hit to it.
+ */
+export function attributeCoverage(merged: CoverageMapData, inputs: AttributionInput[]): CoverageAttribution {
+  const files: Record<string, FileAttribution> = {}
+
+  for (const [path, fileData] of Object.entries(merged)) {
+    const target = fileData as FileCoverageData
+    const attribution: FileAttribution = {
+      statements: Object.fromEntries(Object.keys(target.statementMap).map((key) => [key, []])),
+      functions: Object.fromEntries(Object.keys(target.fnMap).map((key) => [key, []])),
+      branches: Object.fromEntries(
+        Object.keys(target.branchMap).map((key) => [key, (target.b[key] || []).map(() => [])])
+      ),
+    }
+
+    for (const { name, coverageMap } of inputs) {
+      const source = coverageMap[path] as FileCoverageData | undefined
+      if (!source) {
+        continue
+      }
+
+      const counts = projectFileCoverage(target, source)
+      for (const [key, count] of Object.entries(counts.s)) {
+        if (count > 0) {
+          attribution.statements[key].push(name)
+        }
+      }
+      for (const [key, count] of Object.entries(counts.f)) {
+        if (count > 0) {
+          attribution.functions[key].push(name)
+        }
+      }
+      for (const [key, armCounts] of Object.entries(counts.b)) {
+        attribution.branches[key].forEach((arm, i) => {
+          if ((armCounts[i] || 0) > 0) {
+            arm.push(name)
+          }
+        })
+      }
+    }
+
+    files[path] = attribution
+  }
+
+  return { inputs: inputs.map(({ name }) => name), files }
+}
+
+/**
+ * Count, per file and input, the items covered only by that input.
+ * Files where no input has exclusive coverage are left out.
+ */
+export function summarizeAttribution(attribution: CoverageAttribution): AttributionSummary[] {
+  const summaries: AttributionSummary[] = []
+
+  for (const [file, data] of Object.entries(attribution.files)) {
+    const onlyBy: Record<string, ExclusiveCounts> = Object.fromEntries(
+      attribution.inputs.map((name) => [name, { statements: 0, functions: 0, branches: 0 }])
+    )
+
+    for (const names of Object.values(data.statements)) {
+      if (names.length === 1) {
+        onlyBy[names[0]].statements++
+      }
+    }
+    for (const names of Object.values(data.functions)) {
+      if (names.length === 1) {
+        onlyBy[names[0]].functions++
+      }
+    }
+    for (const arms of Object.values(data.branches)) {
+      for (const names of arms) {
+        if (names.length === 1) {
+          onlyBy[names[0]].branches++
+        }
+      }
+    }
+
+    const hasExclusive = Object.values(onlyBy).some(
+      (counts) => counts.statements + counts.functions + counts.branches > 0
+    )
+    if (hasExclusive) {
+      summaries.push({ file, onlyBy })
+    }
+  }
+
+  return summaries
+}
+
+/**
+ * Format the "covered only by" counts as a table with one column per input.
+ * Each cell shows statements/functions/branches.
+ */
+export function formatAttributionSummary(summaries: AttributionSummary[], inputs: string[]): string {
+  return formatTable(
+    ['File', ...inputs.map((name) => `Only ${name} (stmts/fns/branches)`)],
+    summaries.map(({ file, onlyBy }) => [
+      file,
+      ...inputs.map((name) => {
+        const counts = onlyBy[name]
+        return `${counts.statements}/${counts.functions}/${counts.branches}`
+      }),
+    ])
+  )
+}
@@ -0,0 +1,206 @@
+import { isAbsolute, resolve } from 'path'
+import libCoverage, { type CoverageMapData, type CoverageSummary, type FileCoverage } from 'istanbul-lib-coverage'
+import { canonicalizePath } from './canonicalize.js'
+import { formatLineRanges, formatTable } from './format.js'
+import { findCoverageInput, loadCoverageInput } from './inputs.js'
+import { consoleLogger, type Logger } from './logger.js'
+import { rewriteCoveragePaths, toRelativePath } from './paths.js'
+import { COVERAGE_METRICS, type CoverageMetric } from './thresholds.js'
+
+export interface BaselineOptions {
+  /** Previous merged coverage: a coverage file or a directory containing one */
+  file: string
+  /**
+   * Allowed drop in percentage points. When set, the comparison fails if the total
+   * or any file drops by more than this in any metric.
+   */
+  tolerance?: number
+}
+
+export interface MetricDelta {
+  baseline: number
+  current: number
+  delta: number
+}
+
+export type MetricDeltas = Record<CoverageMetric, MetricDelta>
+
+export interface FileComparison {
+  /** Path relative to the comparison root */
+  file: string
+  metrics: MetricDeltas
+  /** Lines hit in the baseline but not anymore */
+  newlyUncoveredLines: number[]
+  /** Functions (by name) hit in the baseline but not anymore */
+  newlyUncoveredFunctions: string[]
+}
+
+export interface Regression {
+  /** 'total' or the file path */
+  scope: string
+  metric: CoverageMetric
+  delta: number
+}
+
+export interface BaselineComparison {
+  total: MetricDeltas
+  /** Files present in both runs whose coverage changed */
+  files: FileComparison[]
+  tolerance?: number
+  /** Drops larger than the tolerance (empty when no tolerance is set) */
+  regressions: Regression[]
+  passed: boolean
+}
+
+/**
+ * Load a baseline coverage file (coverage-final.json, lcov.info, ...) keyed by
+ * canonical absolute paths. Relative keys are resolved against `root`.
+ */
+export async function loadBaseline(
+  file: string,
+  root: string = process.cwd(),
+  logger: Logger = consoleLogger
+): Promise<CoverageMapData> {
+  const input = findCoverageInput(resolve(file))
+  if (!input) {
+    throw new Error(`Baseline coverage not found: ${file}`)
+  }
+  const coverageData = await loadCoverageInput(input, logger)
+  return rewriteCoveragePaths(coverageData, (path) => {
+    const canonical = canonicalizePath(path)
+    return isAbsolute(canonical) ? canonical : resolve(root, canonical)
+  })
+}
+
+/** istanbul reports 'Unknown' for an empty map; count that as fully covered like summarizeCoverage */
+function percentage(pct: number | string): number {
+  return typeof pct === 'number' ? pct : 100
+}
+
+function compareSummaries(baseline: CoverageSummary, current: CoverageSummary): MetricDeltas {
+  const deltas = {} as MetricDeltas
+  for (const metric of COVERAGE_METRICS) {
+    const before = percentage(baseline[metric].pct)
+    const after = percentage(current[metric].pct)
+    deltas[metric] = { baseline: before, current: after, delta: after - before }
+  }
+  return deltas
+}
+
+function coveredLines(fileCoverage: FileCoverage): Set<number> {
+  const lines = new Set<number>()
+  for (const [line, count] of Object.entries(fileCoverage.getLineCoverage())) {
+    if (count > 0) {
+      lines.add(Number(line))
+    }
+  }
+  return lines
+}
+
+function coveredFunctionNames(fileCoverage: FileCoverage): Set<string> {
+  const names = new Set<string>()
+  for (const [key, fn] of Object.entries(fileCoverage.fnMap)) {
+    if ((fileCoverage.f[key] || 0) > 0) {
+      names.add(fn.name)
+    }
+  }
+  return names
+}
+
+function findRegressions(scope: string, deltas: MetricDeltas, tolerance: number): Regression[] {
+  return COVERAGE_METRICS.filter((metric) => deltas[metric].delta < -tolerance).map((metric) => ({
+    scope,
+    metric,
+    delta: deltas[metric].delta,
+  }))
+}
+
+/**
+ * Compare merged coverage with a baseline (e.g. the last merge on the main branch).
+ */
+export function compareCoverage(
+  baseline: CoverageMapData,
+  current: CoverageMapData,
+  options: { tolerance?: number; root?: string } = {}
+): BaselineComparison {
+  const { tolerance, root = process.cwd() } = options
+  const baselineMap = libCoverage.createCoverageMap(baseline)
+  const currentMap = libCoverage.createCoverageMap(current)
+
+  const total = compareSummaries(baselineMap.getCoverageSummary(), currentMap.getCoverageSummary())
+  const regressions = tolerance === undefined ? [] : findRegressions('total', total, tolerance)
+  const files: FileComparison[] = []
+
+  const baselineFiles = new Set(baselineMap.files())
+  for (const path of currentMap.files().sort()) {
+    if (!baselineFiles.has(path)) {
+      continue
+    }
+
+    const before = baselineMap.fileCoverageFor(path)
+    const after = currentMap.fileCoverageFor(path)
+    const metrics = compareSummaries(before.toSummary(), after.toSummary())
+
+    const nowCoveredLines = coveredLines(after)
+    const newlyUncoveredLines = [...coveredLines(before)]
+      .filter((line) => !nowCoveredLines.has(line))
+      .sort((a, b) => a - b)
+    const nowCoveredFunctions = coveredFunctionNames(after)
+    const newlyUncoveredFunctions = [...coveredFunctionNames(before)].filter(
+      (name) => !nowCoveredFunctions.has(name)
+    )
+
+    const changed = COVERAGE_METRICS.some((metric) => metrics[metric].delta !== 0)
+    if (!changed && newlyUncoveredLines.length === 0 && newlyUncoveredFunctions.length === 0) {
+      continue
+    }
+
+    const file = toRelativePath(root, path)
+    files.push({ file, metrics, newlyUncoveredLines, newlyUncoveredFunctions })
+    if (tolerance !== undefined) {
+      regressions.push(...findRegressions(file, metrics, tolerance))
+    }
+  }
+
+  return { total, files, tolerance, regressions, passed: regressions.length === 0 }
+}
+
+function formatDelta({ current, delta }: MetricDelta): string {
+  const sign = delta > 0 ? '+' : ''
+  return `${current.toFixed(2)}% (${sign}${delta.toFixed(2)})`
+}
+
+/**
+ * Format a baseline comparison as a table of metric deltas followed by the
+ * newly uncovered lines and functions per file.
+ */
+export function formatBaselineComparison(comparison: BaselineComparison): string {
+  const rows = [
+    ['All files', ...COVERAGE_METRICS.map((metric) => formatDelta(comparison.total[metric]))],
+    ...comparison.files.map((file) => [
+      file.file,
+      ...COVERAGE_METRICS.map((metric) => formatDelta(file.metrics[metric])),
+    ]),
+  ]
+  const sections = [formatTable(['File', 'Statements', 'Branches', 'Functions', 'Lines'], rows)]
+
+  const uncovered = comparison.files.filter(
+    (file) => file.newlyUncoveredLines.length > 0 || file.newlyUncoveredFunctions.length > 0
+  )
+  if (uncovered.length > 0) {
+    const lines = ['Newly uncovered:']
+    for (const file of uncovered) {
+      const details: string[] = []
+      if (file.newlyUncoveredLines.length > 0) {
+        details.push(`lines ${formatLineRanges(file.newlyUncoveredLines)}`)
+      }
+      if (file.newlyUncoveredFunctions.length > 0) {
+        details.push(`functions ${file.newlyUncoveredFunctions.join(', ')}`)
+      }
+      lines.push(`  ${file.file}: ${details.join('; ')}`)
+    }
+    sections.push(lines.join('\n'))
+  }
+
+  return sections.join('\n\n')
+}
@@ -0,0 +1,75 @@
+import { posix } from 'path'
+import type { CoverageMapData } from 'istanbul-lib-coverage'
+import { rewriteCoveragePaths } from './paths.js'
+
+export interface CollapsedPath {
+  /** Canonical path the keys were merged into */
+  path: string
+  /** Original keys, across all inputs, that resolve to the same file */
+  keys: string[]
+}
+
+export interface CanonicalizeResult {
+  coverageMaps: CoverageMapData[]
+  collapsed: CollapsedPath[]
+}
+
+const WINDOWS_DRIVE = /^\/?([a-zA-Z]):(?=\/|$)/
+
+/**
+ * Convert a Vite/Vitest file identifier to an absolute POSIX path.
+ *
+ * Handles `file://` URLs, Vite's `/@fs/` prefix, query suffixes such as `?v=abc123`
+ * or `?import`, backslashes, and Windows drive letters (normalized to `C:/...`).
+ */
+export function canonicalizePath(id: string): string {
+  let path = id
+
+  const query = path.indexOf('?')
+  if (query !== -1) {
+    path = path.slice(0, query)
+  }
+
+  if (path.startsWith('file://')) {
+    path = decodeURIComponent(path.slice('file://'.length))
+  }
+
+  path = path.replace(/\\/g, '/')
+
+  if (path.startsWith('/@fs/')) {
+    path = path.slice('/@fs'.length)
+  }
+
+  path = path.replace(WINDOWS_DRIVE, (_, drive: string) => `${drive.toUpperCase()}:`)
+
+  return posix.normalize(path)
+}
+
+/**
+ * Canonicalize the file keys of every coverage map so the same file lines up across inputs.
+ *
+ * Reports every canonical path that was reached from more than one distinct key,
+ * whether within a single input or across inputs.
+ */
+export function canonicalizeCoverage(coverageMaps: CoverageMapData[]): CanonicalizeResult {
+  const keysByPath = new Map<string, Set<string>>()
+
+  const canonicalMaps = coverageMaps.map((coverageMap) =>
+    rewriteCoveragePaths(coverageMap, (key) => {
+      const path = canonicalizePath(key)
+      const keys = keysByPath.get(path) ?? new Set<string>()
+      keys.add(key)
+      keysByPath.set(path, keys)
+      return path
+    })
+  )
+
+  const collapsed: CollapsedPath[] = []
+  for (const [path, keys] of keysByPath) {
+    if (keys.size > 1) {
+      collapsed.push({ path, keys: [...keys].sort() })
+    }
+  }
+
+  return { coverageMaps: canonicalMaps, collapsed }
+}
@@ -2,33 +2,138 @@
 
 import { existsSync } from 'fs'
 import { resolve } from 'path'
-import { mergeCoverage } from './index.js'
+import { mergeCoverage, type MergeInput, type MergeOptions, type MergeResult, type ReporterOptions } from './index.js'
+import type { Logger } from './logger.js'
+import { loadConfig, type MergeConfig } from './config.js'
+import { resolveDiff } from './diff-coverage.js'
+import { discoverVitestInputs } from './discover.js'
+import { isDynamicPattern } from 'tinyglobby'
+import { expandInputPatterns, findCoverageInput, COVERAGE_INPUT_NAMES } from './inputs.js'
+import type { PathMapping } from './paths.js'
+import { COUNT_STRATEGIES, type CountStrategy } from './smart-merge.js'
+import { MERGE_MODES, type MergeMode } from './union-merge.js'
+import { COVERAGE_METRICS, type CoverageMetric, type ThresholdOptions } from './thresholds.js'
+import { formatSummaryDelta, inputWatchPath, watchFiles } from './watch.js'
 
 function printUsage(): void {
   console.log(`
 vitest-coverage-merge - Merge Vitest coverage from unit and browser tests
 
 Usage:
-  vitest-coverage-merge <dir1> <dir2> [dir3...] -o <output>
+  vitest-coverage-merge <input1> <input2> [input3...] -o <output>
 
 Arguments:
-  <dir1> <dir2>    Coverage directories to merge (at least 2 required)
+  <input>          Coverage directory, coverage file, or glob pattern
+                   matching either (at least 2 inputs required in total)
                    Each directory should contain coverage-final.json
+                   (or lcov.info, or NODE_V8_COVERAGE coverage-*.json dumps)
 
 Options:
   -o, --output     Output directory for merged coverage (required)
+  -c, --config     Config file (default: vitest-coverage-merge.config.{ts,js,json}
+                   or the "vitestCoverageMerge" key in package.json)
+  --discover       Also merge the coverage.reportsDirectory of every vitest config
+                   (vitest.config.*, vitest.*.config.*, vitest.workspace.*) and
+                   test.projects entry, using their coverage include/exclude
+  --vitest-config <file>
+                   Vitest config or workspace file to discover inputs from
+                   (repeatable, replaces the lookup; implies --discover)
   --normalize      Strip import statements and directives before merging
+  --directive <name>
+                   Directive to strip when normalizing (repeatable, replaces
+                   the default 'use client' and 'use server'; implies --normalize)
+  --strip <regex>  Also strip statements whose source matches regex when
+                   normalizing (repeatable; implies --normalize)
+  --count-strategy <max|sum|binary>
+                   How hit counts are combined across inputs: highest count
+                   (default), total count (disjoint shards), or hit/not hit
+  --merge-mode <best|union>
+                   Take each file's structure from the best input (default)
+                   or keep every statement/function/branch of every input
+  --attribution    Write coverage-attribution.json (which input covered each
+                   statement/function/branch) and list files with items
+                   covered by only one input
+  --explain        Write coverage-diagnostics.json and print, per file, the
+                   items of each input, the input the structure came from, and
+                   how many items matched exactly, approximately or not at all
+  -w, --watch      Merge again whenever an input's coverage file changes and
+                   print the change from the previous merge; inputs that are
+                   missing or being rewritten are waited for
+  --json           Print one JSON document with the merge result, the status of
+                   each input, skipped inputs and warnings instead of the
+                   summary and reports (cannot be combined with --watch)
+  -q, --quiet      Only print warnings and errors
+  -r, --reporter <name[:json-options]>
+                   Istanbul reporter to generate (repeatable, replaces the
+                   default json, lcov and html), e.g. --reporter text-summary
+                   or --reporter 'cobertura:{"file":"cobertura.xml"}'
   -h, --help       Show this help message
   -v, --version    Show version
 
+Paths:
+  --path-map <from>=<to>        Rewrite path prefix <from> to <to> (repeatable)
+  --path-replace <regex>=<to>   Rewrite paths matching <regex> (repeatable,
+                                $1-style references allowed in <to>)
+  --relative                    Emit paths relative to the current directory
+
+Changed lines (patch coverage):
+  --diff <file|->               Unified diff to check ('-' reads stdin)
+  --diff-base <ref>             Check the lines changed since <ref> (runs git diff)
+  --diff-threshold <pct>        Minimum coverage of changed lines (exit code 1 below)
+
+Baseline comparison:
+  --baseline <file|dir>         Previous merged coverage to compare with; writes
+                                coverage-comparison.json
+  --baseline-tolerance <pct>    Fail (exit code 1) when the total or any file drops
+                                by more than <pct> percentage points in any metric
+
+Filters (globs relative to the current directory, same semantics as vitest's
+coverage.include/exclude):
+  --include <glob>   Only merge files matching glob (repeatable)
+  --exclude <glob>   Never merge files matching glob (repeatable)
+  --all              Also report files matching --include that no input loaded,
+                     with zero coverage (parsed from source)
+
+Thresholds (exit with code 1 when not met):
+  --threshold <pct>              Minimum for all four metrics
+  --threshold-statements <pct>   Minimum statement coverage
+  --threshold-branches <pct>     Minimum branch coverage
+  --threshold-functions <pct>    Minimum function coverage
+  --threshold-lines <pct>        Minimum line coverage
+  --threshold-glob <glob>=<pct>  Minimum for all metrics of files matching glob
+                                 (repeatable, e.g. 'src/core/**=90')
+  --per-file                     Check thresholds for each file individually
+
 Examples:
   vitest-coverage-merge coverage/unit coverage/component -o coverage/merged
   vitest-coverage-merge coverage/unit coverage/browser coverage/e2e -o coverage/all
+  vitest-coverage-merge 'packages/*/coverage/unit' 'coverage/shard-*/coverage-final.json' -o coverage/all
+  vitest-coverage-merge 'coverage/shard-*' -o coverage/all --count-strategy sum
   vitest-coverage-merge coverage/unit coverage/component -o coverage/merged --normalize
+  vitest-coverage-merge --discover -o coverage/merged
+  vitest-coverage-merge --vitest-config vitest.config.ts --vitest-config vitest.component.config.ts -o coverage/merged
+  vitest-coverage-merge unit browser -o merged --directive 'use client' --directive 'use cache' --strip '^__webpack_require__'
+  vitest-coverage-merge coverage/unit coverage/component -o coverage/merged --threshold 80
+  vitest-coverage-merge coverage/unit coverage/component -o coverage/merged -r html -r json-summary
+  vitest-coverage-merge unit browser -o merged --path-map /builds/app=/home/runner/work/app
+  vitest-coverage-merge unit browser -o merged --include 'src/**' --exclude '**/*.stories.tsx'
+  vitest-coverage-merge unit browser -o merged --include 'src/**/*.{ts,tsx}' --all
+  vitest-coverage-merge unit browser -o merged --diff-base origin/main --diff-threshold 80
+  vitest-coverage-merge unit browser -o merged --baseline main-coverage/coverage-final.json --baseline-tolerance 0.5
+  vitest-coverage-merge coverage/unit coverage/browser -o coverage/merged --watch
+  vitest-coverage-merge --config coverage-merge.config.ts
+
+Command-line flags override the values from the config file.
+
+Progress messages, warnings and errors are printed to stderr; stdout only carries
+the coverage summary and reports (or the --json document). Reporters that print
+(text, text-summary, teamcity without a file option, text-lcov) can't be combined
+with --json.
 
 The --normalize option strips:
   - ESM import statements (counted differently in jsdom vs browser)
-  - 'use client'/'use server' directives
+  - 'use client'/'use server' directives (or the ones given with --directive)
+  - statements matching --strip patterns
 `)
 }
 
@@ -40,6 +145,31 @@ interface ParsedArgs {
   inputDirs: string[]
   outputDir: string | null
   normalize: boolean
+  directives: string[]
+  stripPatterns: string[]
+  countStrategy: CountStrategy | null
+  mergeMode: MergeMode | null
+  reporters: string[]
+  reporterOptions: ReporterOptions
+  pathMappings: PathMapping[]
+  relative: boolean
+  include: string[]
+  exclude: string[]
+  all: boolean
+  attribution: boolean
+  explain: boolean
+  watch: boolean
+  json: boolean
+  quiet: boolean
+  diffFile: string | null
+  diffBase: string | null
+  diffThreshold: number | null
+  baselineFile: string | null
+  baselineTolerance: number | null
+  thresholds: ThresholdOptions | null
+  configFile: string | null
+  discover: boolean
+  vitestConfigs: string[]
   help: boolean
   version: boolean
   error: string | null
@@ -50,6 +180,31 @@ function parseArgs(args: string[]): ParsedArgs {
     inputDirs: [],
     outputDir: null,
     normalize: false,
+    directives: [],
+    stripPatterns: [],
+    countStrategy: null,
+    mergeMode: null,
+    reporters: [],
+    reporterOptions: {},
+    pathMappings: [],
+    relative: false,
+    include: [],
+    exclude: [],
+    all: false,
+    attribution: false,
+    explain: false,
+    watch: false,
+    json: false,
+    quiet: false,
+    diffFile: null,
+    diffBase: null,
+    diffThreshold: null,
+    baselineFile: null,
+    baselineTolerance: null,
+    thresholds: null,
+    configFile: null,
+    discover: false,
+    vitestConfigs: [],
     help: false,
     version: false,
     error: null,
@@ -76,8 +231,156 @@ function parseArgs(args: string[]): ParsedArgs {
         return result
       }
       result.outputDir = args[i]
+    } else if (arg === '-c' || arg === '--config') {
+      i++
+      if (i >= args.length) {
+        result.error = 'Missing config file after -c/--config'
+        return result
+      }
+      result.configFile = args[i]
+    } else if (arg === '--discover') {
+      result.discover = true
+    } else if (arg === '--vitest-config') {
+      i++
+      if (i >= args.length) {
+        result.error = 'Missing config file after --vitest-config'
+        return result
+      }
+      result.vitestConfigs.push(args[i])
+      result.discover = true
     } else if (arg === '--normalize') {
       result.normalize = true
+    } else if (arg === '--directive' || arg === '--strip') {
+      i++
+      if (i >= args.length) {
+        result.error = `Missing value after ${arg}`
+        return result
+      }
+      if (arg === '--directive') {
+        result.directives.push(args[i])
+      } else {
+        try {
+          new RegExp(args[i])
+        } catch {
+          result.error = `Invalid regex for --strip: ${args[i]}`
+          return result
+        }
+        result.stripPatterns.push(args[i])
+      }
+    } else if (arg === '--count-strategy') {
+      i++
+      if (i >= args.length) {
+        result.error = 'Missing value after --count-strategy'
+        return result
+      }
+      if (!COUNT_STRATEGIES.includes(args[i] as CountStrategy)) {
+        result.error = `Invalid value for --count-strategy: ${args[i]} (expected ${COUNT_STRATEGIES.join(', ')})`
+        return result
+      }
+      result.countStrategy = args[i] as CountStrategy
+    } else if (arg === '--merge-mode') {
+      i++
+      if (i >= args.length) {
+        result.error = 'Missing value after --merge-mode'
+        return result
+      }
+      if (!MERGE_MODES.includes(args[i] as MergeMode)) {
+        result.error = `Invalid value for --merge-mode: ${args[i]} (expected ${MERGE_MODES.join(', ')})`
+        return result
+      }
+      result.mergeMode = args[i] as MergeMode
+    } else if (arg === '-r' || arg === '--reporter') {
+      i++
+      if (i >= args.length) {
+        result.error = 'Missing reporter after -r/--reporter'
+        return result
+      }
+      const error = applyReporterArg(result, args[i])
+      if (error) {
+        result.error = error
+        return result
+      }
+    } else if (arg === '--path-map' || arg === '--path-replace') {
+      i++
+      if (i >= args.length) {
+        result.error = `Missing value after ${arg}`
+        return result
+      }
+      const error = applyPathMappingArg(result, arg, args[i])
+      if (error) {
+        result.error = error
+        return result
+      }
+    } else if (arg === '--include' || arg === '--exclude') {
+      i++
+      if (i >= args.length) {
+        result.error = `Missing glob after ${arg}`
+        return result
+      }
+      if (arg === '--include') {
+        result.include.push(args[i])
+      } else {
+        result.exclude.push(args[i])
+      }
+    } else if (arg === '--diff' || arg === '--diff-base' || arg === '--diff-threshold') {
+      i++
+      if (i >= args.length) {
+        result.error = `Missing value after ${arg}`
+        return result
+      }
+      if (arg === '--diff') {
+        result.diffFile = args[i]
+      } else if (arg === '--diff-base') {
+        result.diffBase = args[i]
+      } else {
+        result.diffThreshold = parsePercentage(args[i])
+        if (result.diffThreshold === null) {
+          result.error = `Invalid value for ${arg}: ${args[i]} (expected 0-100)`
+          return result
+        }
+      }
+    } else if (arg === '--baseline' || arg === '--baseline-tolerance') {
+      i++
+      if (i >= args.length) {
+        result.error = `Missing value after ${arg}`
+        return result
+      }
+      if (arg === '--baseline') {
+        result.baselineFile = args[i]
+      } else {
+        result.baselineTolerance = parsePercentage(args[i])
+        if (result.baselineTolerance === null) {
+          result.error = `Invalid value for ${arg}: ${args[i]} (expected 0-100)`
+          return result
+        }
+      }
+    } else if (arg === '--all') {
+      result.all = true
+    } else if (arg === '--attribution') {
+      result.attribution = true
+    } else if (arg === '--explain') {
+      result.explain = true
+    } else if (arg === '-w' || arg === '--watch') {
+      result.watch = true
+    } else if (arg === '--json') {
+      result.json = true
+    } else if (arg === '-q' || arg === '--quiet') {
+      result.quiet = true
+    } else if (arg === '--relative') {
+      result.relative = true
+    } else if (arg === '--per-file') {
+      result.thresholds = { ...result.thresholds, perFile: true }
+    } else if (arg === '--threshold' || arg.startsWith('--threshold-')) {
+      i++
+      if (i >= args.length) {
+        result.error = `Missing value after ${arg}`
+        return result
+      }
+      const error = applyThresholdArg(result, arg, args[i])
+      if (error) {
+        result.error = error
+        return result
+      }
     } else if (arg.startsWith('-')) {
       result.error = `Unknown option: ${arg}`
       return result
@@ -91,14 +394,304 @@ function parseArgs(args: string[]): ParsedArgs {
   return result
 }
 
-async function main(): Promise<void> {
-  const args = process.argv.slice(2)
+/**
+ * Apply a --reporter value of the form `name` or `name:{json options}`.
+ * Returns an error message on invalid input.
+ */
+function applyReporterArg(result: ParsedArgs, value: string): string | null {
+  const separator = value.indexOf(':')
+  const name = separator === -1 ? value : value.slice(0, separator)
+  if (!name) {
+    return `Invalid reporter: ${value}`
+  }
 
-  if (args.length === 0) {
-    printUsage()
-    process.exit(0)
+  if (separator !== -1) {
+    let options: unknown
+    try {
+      options = JSON.parse(value.slice(separator + 1))
+    } catch {
+      return `Invalid JSON options for reporter ${name}: ${value.slice(separator + 1)}`
+    }
+    if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+      return `Reporter options for ${name} must be a JSON object`
+    }
+    Object.assign(result.reporterOptions, { [name]: options })
   }
 
+  result.reporters.push(name)
+  return null
+}
+
+/**
+ * Apply a --path-map or --path-replace value of the form `<from>=<to>`.
+ * Returns an error message on invalid input.
+ */
+function applyPathMappingArg(result: ParsedArgs, arg: string, value: string): string | null {
+  const separator = value.lastIndexOf('=')
+  if (separator <= 0) {
+    return `Invalid value for ${arg}: ${value} (expected <from>=<to>)`
+  }
+  const from = value.slice(0, separator)
+  const to = value.slice(separator + 1)
+
+  if (arg === '--path-map') {
+    result.pathMappings.push({ from, to })
+    return null
+  }
+
+  try {
+    result.pathMappings.push({ from: new RegExp(from), to })
+  } catch {
+    return `Invalid regular expression for ${arg}: ${from}`
+  }
+  return null
+}
+
+function parsePercentage(value: string): number | null {
+  const pct = Number(value)
+  if (value.trim() === '' || !Number.isFinite(pct) || pct < 0 || pct > 100) {
+    return null
+  }
+  return pct
+}
+
+function allMetrics(pct: number): Record<CoverageMetric, number> {
+  return { statements: pct, branches: pct, functions: pct, lines: pct }
+}
+
+/**
+ * Apply a --threshold* flag to the parsed thresholds. Returns an error message on invalid input.
+ */
+function applyThresholdArg(result: ParsedArgs, arg: string, value: string): string | null {
+  const thresholds: ThresholdOptions = result.thresholds ?? {}
+  result.thresholds = thresholds
+
+  if (arg === '--threshold-glob') {
+    const separator = value.lastIndexOf('=')
+    const pct = separator > 0 ? parsePercentage(value.slice(separator + 1)) : null
+    if (pct === null) {
+      return `Invalid value for ${arg}: ${value} (expected <glob>=<0-100>)`
+    }
+    thresholds.globs = { ...thresholds.globs, [value.slice(0, separator)]: allMetrics(pct) }
+    return null
+  }
+
+  const pct = parsePercentage(value)
+  if (pct === null) {
+    return `Invalid value for ${arg}: ${value} (expected 0-100)`
+  }
+
+  if (arg === '--threshold') {
+    Object.assign(thresholds, allMetrics(pct))
+    return null
+  }
+
+  const metric = arg.slice('--threshold-'.length) as CoverageMetric
+  if (!COVERAGE_METRICS.includes(metric)) {
+    return `Unknown option: ${arg}`
+  }
+  thresholds[metric] = pct
+  return null
+}
+
+/** Reporters that print to stdout unless given a `file` option (text-lcov always does) */
+const STDOUT_REPORTERS = ['text', 'text-summary', 'teamcity', 'text-lcov']
+
+/**
+ * The reporters that would print to stdout, where --json prints its document.
+ */
+function stdoutReporters(reporters: string[], reporterOptions: ReporterOptions): string[] {
+  const options = reporterOptions as Record<string, { file?: string } | undefined>
+  return reporters.filter(
+    (name) => STDOUT_REPORTERS.includes(name) && (name === 'text-lcov' || !options[name]?.file)
+  )
+}
+
+/**
+ * Normalization settings: --directive/--strip replace the config's directives and
+ * strip rules and turn normalization on.
+ */
+function resolveNormalize(parsed: ParsedArgs, config: MergeConfig): MergeOptions['normalize'] {
+  if (parsed.directives.length === 0 && parsed.stripPatterns.length === 0) {
+    return parsed.normalize ? config.normalize || true : config.normalize
+  }
+
+  const configOptions = typeof config.normalize === 'object' ? config.normalize : {}
+  return {
+    directives: parsed.directives.length > 0 ? parsed.directives : configOptions.directives,
+    stripRules:
+      parsed.stripPatterns.length > 0
+        ? parsed.stripPatterns.map((pattern) => ({ name: pattern, match: pattern }))
+        : configOptions.stripRules,
+  }
+}
+
+/**
+ * Patch coverage settings: --diff/--diff-base replace the config's diff source and
+ * --diff-threshold its threshold.
+ */
+function resolveDiffCoverage(parsed: ParsedArgs, config: MergeConfig): MergeOptions['diffCoverage'] {
+  let diffCoverage = config.diffCoverage
+  if (parsed.diffFile !== null || parsed.diffBase !== null) {
+    diffCoverage = {
+      ...diffCoverage,
+      diff: undefined,
+      diffFile: parsed.diffFile ?? undefined,
+      diffBase: parsed.diffBase ?? undefined,
+    }
+  }
+  if (diffCoverage && parsed.diffThreshold !== null) {
+    diffCoverage = { ...diffCoverage, threshold: parsed.diffThreshold }
+  }
+  return diffCoverage
+}
+
+/**
+ * Combine config file settings with command-line flags. Flags win; list flags
+ * (inputs, reporters, path mappings) replace the config's list when given.
+ */
+function resolveOptions(parsed: ParsedArgs, config: MergeConfig): Partial<MergeOptions> {
+  const thresholds: ThresholdOptions | undefined =
+    config.thresholds || parsed.thresholds
+      ? {
+          ...config.thresholds,
+          ...parsed.thresholds,
+          globs: { ...config.thresholds?.globs, ...parsed.thresholds?.globs },
+        }
+      : undefined
+  const baselineFile = parsed.baselineFile ?? config.baseline?.file
+
+  return {
+    inputDirs: parsed.inputDirs.length > 0 ? parsed.inputDirs : config.inputDirs,
+    outputDir: parsed.outputDir ?? config.outputDir,
+    normalize: resolveNormalize(parsed, config),
+    countStrategy: parsed.countStrategy ?? config.countStrategy,
+    mergeMode: parsed.mergeMode ?? config.mergeMode,
+    reporters: parsed.reporters.length > 0 ? parsed.reporters : config.reporters,
+    reporterOptions: { ...config.reporterOptions, ...parsed.reporterOptions },
+    pathMappings: parsed.pathMappings.length > 0 ? parsed.pathMappings : config.pathMappings,
+    relativeTo: parsed.relative ? process.cwd() : config.relativeTo,
+    include: parsed.include.length > 0 ? parsed.include : config.include,
+    exclude: parsed.exclude.length > 0 ? parsed.exclude : config.exclude,
+    all: parsed.all || config.all,
+    attribution: parsed.attribution || config.attribution,
+    diagnostics: parsed.explain || config.diagnostics,
+    diffCoverage: resolveDiffCoverage(parsed, config),
+    baseline: baselineFile
+      ? { file: baselineFile, tolerance: parsed.baselineTolerance ?? config.baseline?.tolerance }
+      : undefined,
+    thresholds,
+  }
+}
+
+/**
+ * What happened to an input given on the command line, in the config file or found
+ * by --discover.
+ */
+interface InputStatus {
+  /** Directory, file or glob pattern */
+  input: string
+  status: 'loaded' | 'skipped'
+  /** Label the input was merged under */
+  name?: string
+  /** Coverage file that was loaded */
+  file?: string
+  /** Why the input was skipped */
+  reason?: string
+}
+
+/** The document printed with --json */
+interface JsonReport {
+  outputDir: string
+  inputs: InputStatus[]
+  /** Inputs that were skipped */
+  skipped: string[]
+  warnings: string[]
+  result: MergeResult
+}
+
+/**
+ * Print progress to stderr so stdout only carries the results (or nothing but the
+ * JSON document with --json). Warnings are collected for the JSON document.
+ */
+function createLogger(parsed: ParsedArgs, warnings: string[]): Logger {
+  return {
+    info: (message) => {
+      if (!parsed.quiet) {
+        console.error(message)
+      }
+    },
+    log: (message) => {
+      if (!parsed.quiet && !parsed.json) {
+        console.log(message)
+      }
+    },
+    warn: (message) => {
+      warnings.push(message.trim())
+      console.error(message)
+    },
+  }
+}
+
+/** How long watch mode waits for missing inputs before merging the others without them */
+const MISSING_INPUT_TIMEOUT = 30_000
+
+/**
+ * Merge now and again whenever an input changes, until interrupted. Failed checks
+ * (thresholds, patch coverage, baseline) are reported but don't stop watching.
+ */
+function watchMerge(options: MergeOptions, logger: Logger): void {
+  const inputPath = (input: string | MergeInput): string => (typeof input === 'string' ? input : input.dir)
+  let previous: MergeResult | undefined
+  let waitingSince: number | undefined
+  let waitTimer: NodeJS.Timeout | undefined
+
+  const merge = async (changed: string[]): Promise<void> => {
+    clearTimeout(waitTimer)
+    if (changed.length > 0) {
+      logger.info(`\nChanged: ${changed.join(', ')}`)
+    }
+
+    // vitest removes its coverage files when a run starts; merging without them
+    // would report a drop that goes away once the run finishes. Inputs that stay
+    // missing (e.g. a suite that wasn't run) stop blocking the others after a while.
+    const missing = options.inputDirs.map(inputPath).filter((path) => !findCoverageInput(path))
+    const present = options.inputDirs.filter((input) => !missing.includes(inputPath(input)))
+    if (missing.length === 0) {
+      waitingSince = undefined
+    } else {
+      waitingSince ??= Date.now()
+      const remaining = waitingSince + MISSING_INPUT_TIMEOUT - Date.now()
+      if (remaining > 0 || present.length === 0) {
+        logger.info(`Waiting for: ${missing.join(', ')}`)
+        if (remaining > 0) {
+          waitTimer = setTimeout(() => watcher.refresh(), remaining)
+        }
+        return
+      }
+      logger.warn(`Merging without inputs missing for ${MISSING_INPUT_TIMEOUT / 1000}s: ${missing.join(', ')}`)
+    }
+
+    try {
+      const result = await mergeCoverage({ ...options, inputDirs: present, logger })
+      logger.log(`\nMerged coverage written to: ${options.outputDir}`)
+      if (previous) {
+        logger.log(`Since the previous merge: ${formatSummaryDelta(previous, result)}`)
+      }
+      previous = result
+    } catch (error) {
+      // Usually a coverage file that is still being written; finishing it triggers another merge
+      logger.warn(`Merge failed, waiting for the next change: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  const files = options.inputDirs.map(inputPath).map(inputWatchPath)
+  logger.info(`\nWatching ${files.length} input(s) for changes (press Ctrl+C to stop)`)
+  const watcher = watchFiles(files, merge, { immediate: true })
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2)
   const parsed = parseArgs(args)
 
   if (parsed.error) {
@@ -116,50 +709,178 @@ async function main(): Promise<void> {
     process.exit(0)
   }
 
-  if (parsed.inputDirs.length < 2) {
+  if (parsed.json && parsed.watch) {
+    console.error('Error: --json cannot be combined with --watch')
+    process.exit(1)
+  }
+
+  const warnings: string[] = []
+  const logger = createLogger(parsed, warnings)
+
+  let loadedConfig
+  try {
+    loadedConfig = await loadConfig(parsed.configFile ?? undefined)
+  } catch (error) {
+    console.error('Error loading config:', error instanceof Error ? error.message : error)
+    process.exit(1)
+  }
+
+  if (args.length === 0 && !loadedConfig.file) {
+    printUsage()
+    process.exit(0)
+  }
+
+  if (loadedConfig.file) {
+    logger.info(`Config: ${loadedConfig.file}`)
+  }
+
+  const options = resolveOptions(parsed, loadedConfig.config)
+
+  const printing = parsed.json ? stdoutReporters(options.reporters ?? [], options.reporterOptions ?? {}) : []
+  if (printing.length > 0) {
+    console.error(
+      `Error: --json prints to stdout, and so would the ${printing.join(', ')} reporter(s); ` +
+        `give them a file (e.g. -r 'text:{"file":"coverage.txt"}') or leave them out`
+    )
+    process.exit(1)
+  }
+  let inputDirs = options.inputDirs ?? []
+
+  if (parsed.discover) {
+    const discovered = await discoverVitestInputs(parsed.vitestConfigs.length > 0 ? parsed.vitestConfigs : undefined)
+    for (const { file, error } of discovered.failures) {
+      logger.warn(`Could not evaluate ${file}: ${error}`)
+    }
+    for (const file of discovered.skipped) {
+      logger.info(`Skipped (no coverage settings): ${file}`)
+    }
+    for (const { dir, config } of discovered.inputs) {
+      logger.info(`Discovered: ${dir} (from ${config})`)
+    }
+
+    // Explicit inputs are kept, and are all that's left when no config could be read
+    // Each input keeps the coverage.include/exclude of its own config
+    inputDirs = [...discovered.inputs.map(({ config, ...input }) => input), ...inputDirs]
+  }
+
+  if (inputDirs.length === 0) {
     console.error('Error: At least 2 coverage directories are required')
     process.exit(1)
   }
 
-  if (!parsed.outputDir) {
+  if (!options.outputDir) {
     console.error('Error: Output directory is required (-o <dir>)')
     process.exit(1)
   }
 
-  // Validate input directories
-  const validDirs: string[] = []
+  if (options.all && !options.include?.length) {
+    console.error('Error: --all needs --include globs to find the source files')
+    process.exit(1)
+  }
+
+  // Expand glob patterns and validate inputs
+  const validInputs: Array<string | MergeInput> = []
+  const validFiles = new Set<string>()
   const skippedDirs: string[] = []
+  const inputStatuses: InputStatus[] = []
 
-  for (const dir of parsed.inputDirs) {
-    const resolvedDir = resolve(dir)
-    const coverageFile = resolve(resolvedDir, 'coverage-final.json')
+  for (const entry of inputDirs) {
+    const pattern = typeof entry === 'string' ? entry : entry.dir
+    const paths = expandInputPatterns([pattern])
 
-    if (!existsSync(resolvedDir)) {
-      console.log(`Skipped (not found): ${dir}`)
-      skippedDirs.push(dir)
-    } else if (!existsSync(coverageFile)) {
-      console.log(`Skipped (no coverage-final.json): ${dir}`)
-      skippedDirs.push(dir)
-    } else {
-      validDirs.push(resolvedDir)
+    if (isDynamicPattern(pattern) && paths.length === 0) {
+      logger.info(`Skipped (no matches): ${pattern}`)
+      skippedDirs.push(pattern)
+      inputStatuses.push({ input: pattern, status: 'skipped', reason: 'no matches' })
+      continue
+    }
+
+    for (const path of paths) {
+      const input = findCoverageInput(path)
+
+      if (!input && parsed.watch) {
+        // In watch mode, wait for inputs vitest hasn't written (yet)
+        if (!validFiles.has(path)) {
+          logger.info(`Waiting for: ${path}`)
+          validFiles.add(path)
+          validInputs.push(typeof entry === 'string' ? path : { ...entry, dir: path })
+        }
+      } else if (!existsSync(path)) {
+        logger.info(`Skipped (not found): ${pattern}`)
+        skippedDirs.push(pattern)
+        inputStatuses.push({ input: pattern, status: 'skipped', reason: 'not found' })
+      } else if (!input) {
+        logger.info(`Skipped (no ${COVERAGE_INPUT_NAMES}): ${path}`)
+        skippedDirs.push(path)
+        inputStatuses.push({ input: path, status: 'skipped', reason: `no ${COVERAGE_INPUT_NAMES}` })
+      } else if (!validFiles.has(input.file)) {
+        validFiles.add(input.file)
+        validInputs.push(typeof entry === 'string' ? input.file : { ...entry, dir: input.file })
+        inputStatuses.push({ input: path, status: 'loaded', file: input.file })
+      }
     }
   }
 
-  if (validDirs.length < 2) {
+  if (validInputs.length < 2) {
     console.error('Error: Need at least 2 valid coverage directories to merge')
     process.exit(1)
   }
 
-  const outputDir = resolve(parsed.outputDir)
+  logger.info(`Inputs (${validInputs.length}):`)
+  for (const input of validInputs) {
+    logger.info(`  ${typeof input === 'string' ? input : input.dir}`)
+  }
+
+  if (parsed.diffFile && parsed.diffBase) {
+    console.error('Error: Use either --diff or --diff-base, not both')
+    process.exit(1)
+  }
+
+  if (parsed.diffThreshold !== null && !options.diffCoverage) {
+    console.error('Error: --diff-threshold needs --diff or --diff-base (or diffCoverage in the config file)')
+    process.exit(1)
+  }
+
+  if (options.diffCoverage) {
+    // Read the diff once up front, so watch mode doesn't wait on stdin or run git each time
+    try {
+      options.diffCoverage = resolveDiff(options.diffCoverage)
+    } catch (error) {
+      console.error('Error reading diff:', error instanceof Error ? error.message : error)
+      process.exit(1)
+    }
+  }
+
+  const outputDir = resolve(options.outputDir)
+
+  if (parsed.watch) {
+    watchMerge({ ...options, inputDirs: validInputs, outputDir }, logger)
+    return
+  }
 
   try {
-    await mergeCoverage({
-      inputDirs: validDirs,
+    const result = await mergeCoverage({
+      ...options,
+      inputDirs: validInputs,
       outputDir,
-      normalize: parsed.normalize,
+      logger,
     })
 
-    console.log(`\nMerged coverage written to: ${outputDir}`)
+    logger.log(`\nMerged coverage written to: ${outputDir}`)
+
+    if (parsed.json) {
+      for (const status of inputStatuses) {
+        status.name = result.inputs.find(({ file }) => file === status.file)?.name
+      }
+      const report: JsonReport = { outputDir, inputs: inputStatuses, skipped: skippedDirs, warnings, result }
+      console.log(JSON.stringify(report, null, 2))
+    }
+
+    // Set the exit code instead of exiting so the JSON document is flushed
+    const failed = [result.thresholds, result.diffCoverage, result.baseline].some((check) => check && !check.passed)
+    if (failed) {
+      process.exitCode = 1
+    }
   } catch (error) {
     console.error('Error merging coverage:', error)
     process.exit(1)
@@ -0,0 +1,240 @@
+import { readFileSync, existsSync } from 'fs'
+import { dirname, isAbsolute, join, posix, resolve } from 'path'
+import { createJiti } from 'jiti'
+import { convertPathToPattern, isDynamicPattern } from 'tinyglobby'
+import type { MergeInput, MergeOptions } from './index.js'
+import { COUNT_STRATEGIES } from './smart-merge.js'
+import { COVERAGE_METRICS } from './thresholds.js'
+import { MERGE_MODES } from './union-merge.js'
+
+/**
+ * Merge settings that can be kept in a config file.
+ *
+ * Relative paths (inputs and their `root`, `outputDir`, `relativeTo`, `baseline.file`,
+ * `diffCoverage.diffFile` and `diffCoverage.root`) are resolved against the directory
+ * of the config file. Globs (`include`, `exclude`) and path mappings are used as written.
+ */
+export type MergeConfig = Partial<MergeOptions>
+
+export interface LoadedConfig {
+  config: MergeConfig
+  /** File the config was read from, or null when none was found */
+  file: string | null
+}
+
+/**
+ * Config files looked up in the current directory, in order of preference.
+ */
+export const CONFIG_FILES = [
+  'vitest-coverage-merge.config.ts',
+  'vitest-coverage-merge.config.js',
+  'vitest-coverage-merge.config.json',
+]
+
+/**
+ * Key holding the config in package.json, used when no config file exists.
+ */
+export const PACKAGE_JSON_KEY = 'vitestCoverageMerge'
+
+/**
+ * Type helper for config files.
+ *
+ * @example
+ * // vitest-coverage-merge.config.ts
+ * import { defineConfig } from 'vitest-coverage-merge'
+ *
+ * export default defineConfig({
+ *   inputDirs: ['coverage/unit', 'coverage/component'],
+ *   outputDir: 'coverage/merged',
+ * })
+ */
+export function defineConfig(config: MergeConfig): MergeConfig {
+  return config
+}
+
+async function readConfigFile(file: string): Promise<MergeConfig> {
+  if (file.endsWith('.json')) {
+    return JSON.parse(readFileSync(file, 'utf-8'))
+  }
+  const jiti = createJiti(import.meta.url)
+  return jiti.import<MergeConfig>(file, { default: true })
+}
+
+type Check = (value: unknown) => boolean
+
+const isString: Check = (value) => typeof value === 'string'
+const isBoolean: Check = (value) => typeof value === 'boolean'
+const isFunction: Check = (value) => typeof value === 'function'
+const isNumber: Check = (value) => typeof value === 'number' && Number.isFinite(value)
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+const isArrayOf = (check: Check): Check => (value) => Array.isArray(value) && value.every(check)
+const isOneOf = (values: readonly string[]): Check => (value) => values.includes(value as string)
+/** An object whose listed properties pass their checks when present */
+const hasProperties =
+  (checks: Record<string, Check>, required: string[] = []): Check =>
+  (value) =>
+    isObject(value) &&
+    required.every((key) => value[key] !== undefined) &&
+    Object.entries(checks).every(([key, check]) => value[key] === undefined || check(value[key]))
+
+const isPathMappings = isArrayOf(
+  hasProperties({ from: (from) => isString(from) || from instanceof RegExp, to: isString }, ['from', 'to'])
+)
+const thresholdChecks: Record<string, Check> = {
+  ...Object.fromEntries(COVERAGE_METRICS.map((metric) => [metric, isNumber])),
+  perFile: isBoolean,
+}
+
+/** Check and expected type of every option a config may set */
+const OPTION_CHECKS: Record<keyof MergeOptions, [Check, string]> = {
+  inputDirs: [
+    isArrayOf(
+      (input) =>
+        isString(input) ||
+        hasProperties(
+          {
+            dir: isString,
+            name: isString,
+            pathMappings: isPathMappings,
+            root: isString,
+            include: isArrayOf(isString),
+            exclude: isArrayOf(isString),
+          },
+          ['dir']
+        )(input)
+    ),
+    'an array of paths or { dir } objects',
+  ],
+  outputDir: [isString, 'a string'],
+  normalize: [
+    (value) =>
+      isBoolean(value) ||
+      hasProperties({
+        directives: isArrayOf(isString),
+        stripRules: isArrayOf(hasProperties({ name: isString }, ['name', 'match'])),
+      })(value),
+    'a boolean or { directives, stripRules }',
+  ],
+  countStrategy: [isOneOf(COUNT_STRATEGIES), `one of ${COUNT_STRATEGIES.join(', ')}`],
+  mergeMode: [isOneOf(MERGE_MODES), `one of ${MERGE_MODES.join(', ')}`],
+  pathMappings: [isPathMappings, 'an array of { from, to } objects'],
+  relativeTo: [isString, 'a string'],
+  include: [isArrayOf(isString), 'an array of strings'],
+  exclude: [isArrayOf(isString), 'an array of strings'],
+  all: [isBoolean, 'a boolean'],
+  reporters: [isArrayOf(isString), 'an array of strings'],
+  reporterOptions: [(value) => isObject(value) && Object.values(value).every(isObject), 'an object of option objects'],
+  thresholds: [
+    hasProperties({
+      ...thresholdChecks,
+      globs: (globs) => isObject(globs) && Object.values(globs).every(hasProperties(thresholdChecks)),
+    }),
+    'an object of percentages (with optional perFile and globs)',
+  ],
+  attribution: [isBoolean, 'a boolean'],
+  diagnostics: [isBoolean, 'a boolean'],
+  diffCoverage: [
+    hasProperties({ diff: isString, diffFile: isString, diffBase: isString, root: isString, threshold: isNumber }),
+    'an object with diff, diffFile or diffBase',
+  ],
+  baseline: [hasProperties({ file: isString, tolerance: isNumber }, ['file']), 'an object with a file'],
+  logger: [
+    hasProperties({ info: isFunction, log: isFunction, warn: isFunction }, ['info', 'log', 'warn']),
+    'a logger with info, log and warn methods',
+  ],
+}
+
+function assertConfigObject(config: unknown, file: string): asserts config is MergeConfig {
+  if (!isObject(config)) {
+    throw new Error(`Invalid config in ${file}: expected an object`)
+  }
+  for (const [key, value] of Object.entries(config)) {
+    if (!Object.hasOwn(OPTION_CHECKS, key)) {
+      throw new Error(`Invalid config in ${file}: unknown option "${key}"`)
+    }
+    const [check, expected] = OPTION_CHECKS[key as keyof MergeOptions]
+    if (value !== undefined && !check(value)) {
+      throw new Error(`Invalid config in ${file}: ${key} must be ${expected}`)
+    }
+  }
+}
+
+/** Resolve the relative paths of a config against `dir`, the directory of its file */
+function resolveConfigPaths(config: MergeConfig, dir: string): MergeConfig {
+  const resolvePath = (path: string): string => resolve(dir, path)
+  // Globs stay globs: prefix them with the directory, escaped so its name can't match other paths
+  const resolvePattern = (pattern: string): string =>
+    isDynamicPattern(pattern) && !isAbsolute(pattern)
+      ? posix.join(convertPathToPattern(dir), pattern)
+      : resolvePath(pattern)
+  const resolveInput = (input: string | MergeInput): string | MergeInput =>
+    typeof input === 'string'
+      ? resolvePattern(input)
+      : {
+          ...input,
+          dir: resolvePattern(input.dir),
+          ...(input.root !== undefined && { root: resolvePath(input.root) }),
+        }
+
+  const { inputDirs, outputDir, relativeTo, baseline, diffCoverage } = config
+  return {
+    ...config,
+    ...(inputDirs && { inputDirs: inputDirs.map(resolveInput) }),
+    ...(outputDir !== undefined && { outputDir: resolvePath(outputDir) }),
+    ...(relativeTo !== undefined && { relativeTo: resolvePath(relativeTo) }),
+    ...(baseline && { baseline: { ...baseline, file: resolvePath(baseline.file) } }),
+    ...(diffCoverage && {
+      diffCoverage: {
+        ...diffCoverage,
+        // '-' reads the diff from stdin
+        ...(diffCoverage.diffFile !== undefined &&
+          diffCoverage.diffFile !== '-' && { diffFile: resolvePath(diffCoverage.diffFile) }),
+        ...(diffCoverage.root !== undefined && { root: resolvePath(diffCoverage.root) }),
+      },
+    }),
+  }
+}
+
+/** Check a loaded config and resolve its paths against the directory of `file` */
+function prepareConfig(config: unknown, file: string, description: string = file): LoadedConfig {
+  assertConfigObject(config, description)
+  return { config: resolveConfigPaths(config, dirname(file)), file }
+}
+
+/**
+ * Load merge settings.
+ *
+ * With an explicit `configFile`, that file must exist. Otherwise the first of
+ * CONFIG_FILES found in `cwd` is used, then the `vitestCoverageMerge` key in
+ * package.json. Returns an empty config when nothing is found.
+ *
+ * Throws when the config is not an object, sets an unknown option or an option
+ * of the wrong type.
+ */
+export async function loadConfig(configFile?: string, cwd: string = process.cwd()): Promise<LoadedConfig> {
+  if (configFile) {
+    const file = resolve(cwd, configFile)
+    if (!existsSync(file)) {
+      throw new Error(`Config file not found: ${configFile}`)
+    }
+    return prepareConfig(await readConfigFile(file), file)
+  }
+
+  for (const name of CONFIG_FILES) {
+    const file = join(cwd, name)
+    if (existsSync(file)) {
+      return prepareConfig(await readConfigFile(file), file)
+    }
+  }
+
+  const packageJson = join(cwd, 'package.json')
+  if (existsSync(packageJson)) {
+    const config: unknown = JSON.parse(readFileSync(packageJson, 'utf-8'))[PACKAGE_JSON_KEY]
+    if (config !== undefined) {
+      return prepareConfig(config, packageJson, `${packageJson} (${PACKAGE_JSON_KEY})`)
+    }
+  }
+
+  return { config: {}, file: null }
+}
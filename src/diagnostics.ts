@@ -0,0 +1,197 @@
+import type { CoverageMapData, FileCoverageData, Range } from 'istanbul-lib-coverage'
+import { formatTable } from './format.js'
+import { fileItems, matchItems, type FileItems, type MatchItem } from './matching.js'
+import { toRelativePath } from './paths.js'
+
+export interface DiagnosticsInput {
+  /** Label of the input, e.g. 'unit' or 'browser' */
+  name: string
+  coverageMap: CoverageMapData
+}
+
+export type ItemKind = 'statement' | 'function' | 'branch'
+
+/**
+ * An item of an input that has no counterpart in the merged structure, so its
+ * counts were not merged.
+ */
+export interface DroppedItem {
+  kind: ItemKind
+  loc: Range
+  /** Function name or branch type */
+  name?: string
+  /** Hit count (sum of the arms for branches) */
+  count: number
+}
+
+export interface InputDiagnostics {
+  input: string
+  statements: number
+  functions: number
+  branches: number
+  /** Items paired with a merged item with the same range */
+  exact: number
+  /** Items paired with a merged item by range overlap, line or function name */
+  approximate: number
+  /** Items without a counterpart in the merged structure */
+  unmatched: number
+  dropped: DroppedItem[]
+}
+
+export interface FileDiagnostics {
+  /** Path relative to the diagnostics root */
+  file: string
+  /** Input the merged structure was taken from (undefined for union merges) */
+  structure?: string
+  inputs: InputDiagnostics[]
+}
+
+export interface DiagnosticsOptions {
+  /** Directory file paths are shown relative to (default: current directory) */
+  root?: string
+  /** Index of the input each file's structure was taken from, keyed by file */
+  structureSources?: Record<string, number>
+}
+
+function sameRange(a: Range, b: Range): boolean {
+  return (
+    a.start.line === b.start.line &&
+    a.start.column === b.start.column &&
+    a.end.line === b.end.line &&
+    a.end.column === b.end.column
+  )
+}
+
+const KINDS: Array<[ItemKind, keyof FileItems]> = [
+  ['statement', 'statements'],
+  ['function', 'functions'],
+  ['branch', 'branches'],
+]
+
+function itemCount(source: FileCoverageData, kind: ItemKind, key: string): number {
+  if (kind === 'statement') {
+    return source.s[key] || 0
+  }
+  if (kind === 'function') {
+    return source.f[key] || 0
+  }
+  return (source.b[key] || []).reduce((sum, count) => sum + count, 0)
+}
+
+function diagnoseInput(name: string, merged: FileCoverageData, source: FileCoverageData): InputDiagnostics {
+  const mergedItems = fileItems(merged)
+  const sourceItems = fileItems(source)
+  const result: InputDiagnostics = {
+    input: name,
+    statements: sourceItems.statements.length,
+    functions: sourceItems.functions.length,
+    branches: sourceItems.branches.length,
+    exact: 0,
+    approximate: 0,
+    unmatched: 0,
+    dropped: [],
+  }
+
+  for (const [kind, group] of KINDS) {
+    const sources = new Map<string, MatchItem>(sourceItems[group].map((item) => [item.key, item]))
+    const targets = new Map<string, MatchItem>(mergedItems[group].map((item) => [item.key, item]))
+    const matched = new Set<string>()
+
+    for (const [targetKey, sourceKey] of matchItems(mergedItems[group], sourceItems[group])) {
+      matched.add(sourceKey)
+      if (sameRange(targets.get(targetKey)!.loc as Range, sources.get(sourceKey)!.loc as Range)) {
+        result.exact++
+      } else {
+        result.approximate++
+      }
+    }
+
+    for (const item of sourceItems[group]) {
+      if (!matched.has(item.key)) {
+        result.unmatched++
+        result.dropped.push({
+          kind,
+          loc: item.loc as Range,
+          name: item.name ?? item.kind,
+          count: itemCount(source, kind, item.key),
+        })
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Explain how each file was merged: the items every input has, which input the
+ * structure was taken from, and how the items of each input were paired with the
+ * merged structure (exactly, approximately, or not at all).
+ */
+export function diagnoseMerge(
+  merged: CoverageMapData,
+  inputs: DiagnosticsInput[],
+  options: DiagnosticsOptions = {}
+): FileDiagnostics[] {
+  const { root = process.cwd(), structureSources } = options
+  const files: FileDiagnostics[] = []
+
+  for (const path of Object.keys(merged).sort()) {
+    const target = merged[path] as FileCoverageData
+    const structure = structureSources?.[path]
+    files.push({
+      file: toRelativePath(root, path),
+      structure: structure === undefined ? undefined : inputs[structure].name,
+      inputs: inputs.flatMap(({ name, coverageMap }) => {
+        const source = coverageMap[path] as FileCoverageData | undefined
+        return source ? [diagnoseInput(name, target, source)] : []
+      }),
+    })
+  }
+
+  return files
+}
+
+function formatRange({ start, end }: Range): string {
+  return `${start.line}:${start.column}-${end.line}:${end.column}`
+}
+
+/**
+ * Format diagnostics as text, one section per file where an input has items that
+ * were not matched exactly. Files where everything lined up are only counted.
+ */
+export function formatDiagnostics(diagnostics: FileDiagnostics[]): string {
+  const sections: string[] = []
+  let exactFiles = 0
+
+  for (const file of diagnostics) {
+    if (file.inputs.every((input) => input.approximate === 0 && input.unmatched === 0)) {
+      exactFiles++
+      continue
+    }
+
+    const lines = [`${file.file}${file.structure ? ` (structure: ${file.structure})` : ''}`]
+    const table = formatTable(
+      ['Input', 'Statements', 'Functions', 'Branches', 'Exact', 'Approximate', 'Unmatched'],
+      file.inputs.map((input) => [
+        input.input,
+        String(input.statements),
+        String(input.functions),
+        String(input.branches),
+        String(input.exact),
+        String(input.approximate),
+        String(input.unmatched),
+      ])
+    )
+    lines.push(...table.split('\n').map((line) => `  ${line}`))
+    for (const input of file.inputs) {
+      for (const item of input.dropped) {
+        const label = item.name ? `${item.kind} ${item.name}` : item.kind
+        lines.push(`  dropped from ${input.input}: ${label} at ${formatRange(item.loc)} (${item.count} hit(s))`)
+      }
+    }
+    sections.push(lines.join('\n'))
+  }
+
+  sections.push(`${exactFiles} of ${diagnostics.length} file(s) matched exactly across all inputs`)
+  return sections.join('\n\n')
+}
@@ -0,0 +1,249 @@
+import { execFileSync } from 'child_process'
+import { readFileSync } from 'fs'
+import { isAbsolute, resolve } from 'path'
+import type { CoverageMapData, FileCoverageData } from 'istanbul-lib-coverage'
+import { formatLineRanges, formatTable } from './format.js'
+import { toRelativePath } from './paths.js'
+
+export interface DiffCoverageOptions {
+  /** Unified diff text, e.g. the output of `git diff <base>` */
+  diff?: string
+  /** File holding a unified diff ('-' reads stdin), instead of `diff` */
+  diffFile?: string
+  /** Check the lines changed since this git ref, instead of `diff` */
+  diffBase?: string
+  /** Directory the paths in the diff are relative to (default: current directory, or the git root with `diffBase`) */
+  root?: string
+  /** Minimum percentage of covered changed lines; the result fails below it */
+  threshold?: number
+}
+
+export interface FileDiffCoverage {
+  /** Path relative to the diff root */
+  file: string
+  /** Changed lines that are fully covered */
+  covered: number[]
+  /** Changed lines that were executed but have uncovered branch arms */
+  partial: number[]
+  /** Changed lines that were never executed */
+  uncovered: number[]
+}
+
+export interface DiffCoverageResult {
+  files: FileDiffCoverage[]
+  /** Changed executable lines that are fully covered */
+  covered: number
+  /** Changed executable lines (changed lines without statements are ignored) */
+  total: number
+  pct: number
+  threshold?: number
+  passed: boolean
+}
+
+/**
+ * Parse a unified diff into the added/modified line numbers of each new file.
+ *
+ * Paths are resolved against `root`; git's `b/` prefix is stripped and deleted
+ * files are skipped. Hunks are read by their line counts, so changed lines that
+ * start with `++` or `--` aren't taken for file headers.
+ */
+export function parseUnifiedDiff(diff: string, root: string = process.cwd()): Map<string, Set<number>> {
+  const changed = new Map<string, Set<number>>()
+  let lines: Set<number> | null = null
+  let lineNum = 0
+  // Lines left in the current hunk; until both run out, '+++ ' and '--- ' are content, not headers
+  let oldRemaining = 0
+  let newRemaining = 0
+
+  for (const line of diff.split(/\r?\n/)) {
+    if (oldRemaining > 0 || newRemaining > 0) {
+      if (line.startsWith('+')) {
+        lines?.add(lineNum)
+        lineNum++
+        newRemaining--
+      } else if (line.startsWith('-')) {
+        oldRemaining--
+      } else if (line.startsWith(' ') || line === '') {
+        lineNum++
+        oldRemaining--
+        newRemaining--
+      }
+      continue
+    }
+
+    if (line.startsWith('+++ ')) {
+      let path = line.slice(4).replace(/\t.*$/, '')
+      if (path === '/dev/null') {
+        lines = null
+        continue
+      }
+      if (path.startsWith('b/')) {
+        path = path.slice(2)
+      }
+      const file = isAbsolute(path) ? path : resolve(root, path)
+      lines = changed.get(file) ?? new Set<number>()
+      changed.set(file, lines)
+      continue
+    }
+
+    const hunk = /^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line)
+    if (hunk) {
+      oldRemaining = Number(hunk[1] ?? 1)
+      lineNum = Number(hunk[2])
+      newRemaining = Number(hunk[3] ?? 1)
+    }
+  }
+
+  return changed
+}
+
+/**
+ * Run `git diff <base>` in `cwd` and return the diff along with the repository root,
+ * which the paths in the diff are relative to.
+ *
+ * `git diff` leaves out untracked files, so new files that haven't been added yet
+ * are appended to the diff with all their lines changed.
+ */
+export function readGitDiff(base: string, cwd: string = process.cwd()): { diff: string; root: string } {
+  const git = (args: string[], dir: string = cwd): string =>
+    execFileSync('git', args, { cwd: dir, encoding: 'utf-8', maxBuffer: 64 * 1024 * 1024 })
+
+  const root = git(['rev-parse', '--show-toplevel']).trim()
+  const diff = git(['diff', '--no-color', '--no-ext-diff', '--unified=0', base])
+
+  const untracked = git(['ls-files', '--others', '--exclude-standard', '-z'], root).split('\0').filter(Boolean)
+  const added = untracked.map((path) => {
+    const lines = readFileSync(resolve(root, path), 'utf-8').split(/\r?\n/)
+    if (lines[lines.length - 1] === '') {
+      lines.pop()
+    }
+    return [`+++ b/${path}`, `@@ -0,0 +1,${lines.length} @@`, ...lines.map((line) => `+${line}`)].join('\n')
+  })
+
+  return { diff: [diff, ...added].join('\n'), root }
+}
+
+/**
+ * Read the diff named by `diffFile` or `diffBase` into `diff`, so the options can
+ * be passed to computeDiffCoverage. Exactly one diff source must be given.
+ */
+export function resolveDiff(options: DiffCoverageOptions): DiffCoverageOptions & { diff: string } {
+  const { diff, diffFile, diffBase, ...rest } = options
+  const sources = [diff, diffFile, diffBase].filter((source) => source !== undefined)
+  if (sources.length === 0) {
+    throw new Error('diffCoverage needs a diff source: diff, diffFile or diffBase')
+  }
+  if (sources.length > 1) {
+    throw new Error('diffCoverage takes only one of diff, diffFile and diffBase')
+  }
+
+  if (diffBase !== undefined) {
+    return { ...rest, ...readGitDiff(diffBase, rest.root) }
+  }
+  if (diffFile !== undefined) {
+    return { ...rest, diff: readFileSync(diffFile === '-' ? 0 : diffFile, 'utf-8') }
+  }
+  return { ...rest, diff: diff! }
+}
+
+type LineStatus = 'covered' | 'partial' | 'uncovered'
+
+/**
+ * Status of every executable line in a file: a line is executable when a statement
+ * starts on it, executed when any of those statements was hit, and partial when a
+ * branch arm starting on it was never taken.
+ */
+function lineStatuses(data: FileCoverageData): Map<number, LineStatus> {
+  const hits = new Map<number, number>()
+  for (const [key, loc] of Object.entries(data.statementMap)) {
+    const line = loc.start.line
+    hits.set(line, Math.max(hits.get(line) ?? 0, data.s[key] || 0))
+  }
+
+  const missedBranchLines = new Set<number>()
+  for (const [key, branch] of Object.entries(data.branchMap)) {
+    const counts = data.b[key] || []
+    counts.forEach((count, i) => {
+      if (count === 0) {
+        missedBranchLines.add(branch.locations?.[i]?.start.line ?? branch.loc.start.line)
+      }
+    })
+  }
+
+  const statuses = new Map<number, LineStatus>()
+  for (const [line, count] of hits) {
+    if (count === 0) {
+      statuses.set(line, 'uncovered')
+    } else {
+      statuses.set(line, missedBranchLines.has(line) ? 'partial' : 'covered')
+    }
+  }
+  return statuses
+}
+
+/**
+ * Intersect the changed lines of a diff with merged coverage.
+ */
+export function computeDiffCoverage(coverageMap: CoverageMapData, options: DiffCoverageOptions): DiffCoverageResult {
+  const { diff, root = process.cwd(), threshold } = resolveDiff(options)
+  const changed = parseUnifiedDiff(diff, root)
+
+  const files: FileDiffCoverage[] = []
+  let covered = 0
+  let total = 0
+
+  for (const [file, lines] of changed) {
+    const data = coverageMap[file] as FileCoverageData | undefined
+    if (!data) {
+      continue
+    }
+
+    const statuses = lineStatuses(data)
+    const fileResult: FileDiffCoverage = { file: toRelativePath(root, file), covered: [], partial: [], uncovered: [] }
+    for (const line of [...lines].sort((a, b) => a - b)) {
+      const status = statuses.get(line)
+      if (status) {
+        fileResult[status].push(line)
+      }
+    }
+
+    const fileTotal = fileResult.covered.length + fileResult.partial.length + fileResult.uncovered.length
+    if (fileTotal > 0) {
+      files.push(fileResult)
+      covered += fileResult.covered.length
+      total += fileTotal
+    }
+  }
+
+  files.sort((a, b) => a.file.localeCompare(b.file))
+  const pct = total === 0 ? 100 : (covered / total) * 100
+
+  return {
+    files,
+    covered,
+    total,
+    pct,
+    threshold,
+    passed: threshold === undefined || pct >= threshold,
+  }
+}
+
+/**
+ * Format diff coverage as a table of changed files with their uncovered lines.
+ */
+export function formatDiffCoverage(result: DiffCoverageResult): string {
+  const table = formatTable(
+    ['File', 'Covered', '% Lines', 'Uncovered lines', 'Partial lines'],
+    result.files.map((file) => {
+      const fileTotal = file.covered.length + file.partial.length + file.uncovered.length
+      return [
+        file.file,
+        `${file.covered.length}/${fileTotal}`,
+        `${((file.covered.length / fileTotal) * 100).toFixed(2)}%`,
+        formatLineRanges(file.uncovered),
+        formatLineRanges(file.partial),
+      ]
+    })
+  )
+  return `${table}\n\nChanged lines: ${result.pct.toFixed(2)}% ( ${result.covered}/${result.total} )`
+}
@@ -0,0 +1,213 @@
+import { existsSync, readFileSync, statSync } from 'fs'
+import { dirname, isAbsolute, relative, resolve, sep } from 'path'
+import { createJiti } from 'jiti'
+import { globSync } from 'tinyglobby'
+import type { MergeInput } from './index.js'
+
+/**
+ * An input found in a vitest config: the config's `coverage.reportsDirectory`,
+ * labeled with the project name when it has one, and filtered with the config's
+ * `coverage.include`/`exclude` (relative to the current directory).
+ */
+export interface DiscoveredInput extends MergeInput {
+  /** Config file the input was declared in */
+  config: string
+}
+
+export interface DiscoveryResult {
+  inputs: DiscoveredInput[]
+  /** Config files without coverage settings */
+  skipped: string[]
+  /** Config files that could not be evaluated */
+  failures: Array<{ file: string; error: string }>
+}
+
+/**
+ * Config files looked up in the current directory when none are given, e.g.
+ * vitest.config.ts, vitest.component.config.ts and vitest.workspace.ts.
+ */
+export const VITEST_CONFIG_PATTERNS = [
+  'vitest.config.{ts,mts,cts,js,mjs,cjs}',
+  'vitest.*.config.{ts,mts,cts,js,mjs,cjs}',
+  'vitest.workspace.{ts,mts,cts,js,mjs,cjs,json}',
+]
+
+/** Config files looked up in project directories listed in `test.projects` */
+const PROJECT_CONFIG_PATTERNS = ['vitest.config.{ts,mts,cts,js,mjs,cjs}', 'vite.config.{ts,mts,cts,js,mjs,cjs}']
+
+interface CoverageConfig {
+  reportsDirectory?: string
+  include?: string[]
+  exclude?: string[]
+}
+
+interface TestConfig {
+  name?: string | { label: string }
+  root?: string
+  coverage?: CoverageConfig
+  projects?: unknown[]
+  workspace?: unknown[] | string
+}
+
+interface UserConfig {
+  root?: string
+  test?: TestConfig
+}
+
+/**
+ * Find the vitest configs in a directory, in the order of VITEST_CONFIG_PATTERNS so the
+ * main config comes before the others (e.g. component tests).
+ */
+export function findVitestConfigs(cwd: string = process.cwd()): string[] {
+  return VITEST_CONFIG_PATTERNS.flatMap((pattern) =>
+    globSync(pattern, { cwd, absolute: true })
+      .map((file) => resolve(file))
+      .sort()
+  )
+}
+
+/**
+ * Evaluate a config file. Configs exported as functions (`defineConfig(({ mode }) => ...)`)
+ * are called the way vitest calls them.
+ */
+async function evaluateConfig(file: string): Promise<unknown> {
+  if (file.endsWith('.json')) {
+    return JSON.parse(readFileSync(file, 'utf-8'))
+  }
+  const jiti = createJiti(import.meta.url)
+  const config = await jiti.import<unknown>(file, { default: true })
+  return typeof config === 'function' ? await config({ command: 'serve', mode: 'test' }) : config
+}
+
+/**
+ * Prefix globs that are relative to a config's root so they are relative to `cwd`.
+ */
+function rebaseGlobs(globs: string[], root: string, cwd: string): string[] {
+  const prefix = relative(cwd, root).split(sep).join('/')
+  if (!prefix) {
+    return globs
+  }
+  return globs.map((glob) => (isAbsolute(glob) ? glob : `${prefix}/${glob.replace(/^\.\//, '')}`))
+}
+
+/**
+ * Resolve `test.projects` (or vitest.workspace) entries: globs matching config files or
+ * project directories, and inline project configs.
+ */
+function resolveProjects(entries: unknown[], root: string): Array<string | UserConfig> {
+  const patterns = entries.filter((entry): entry is string => typeof entry === 'string')
+  const inline = entries.filter((entry): entry is UserConfig => typeof entry === 'object' && entry !== null)
+
+  const files: string[] = []
+  for (const match of globSync(patterns, { cwd: root, absolute: true, onlyFiles: false, expandDirectories: false })) {
+    const path = resolve(match)
+    if (statSync(path).isFile()) {
+      files.push(path)
+      continue
+    }
+    const [config] = globSync(PROJECT_CONFIG_PATTERNS, { cwd: path, absolute: true }).sort()
+    if (config) {
+      files.push(resolve(config))
+    }
+  }
+  return [...files.sort(), ...inline]
+}
+
+/**
+ * Derive merge inputs from vitest configs: the `coverage.reportsDirectory` of every
+ * config and of every project listed in `test.projects` or a vitest.workspace file,
+ * plus their `coverage.include`/`exclude` globs.
+ *
+ * Configs are evaluated (with jiti, like the config file of this tool), so they can
+ * import plugins and helpers. Configs that fail to evaluate are listed in `failures`
+ * instead of failing the discovery, so callers can fall back to explicit inputs.
+ *
+ * @param configFiles Configs to read (default: the vitest configs in `cwd`)
+ */
+export async function discoverVitestInputs(
+  configFiles?: string[],
+  cwd: string = process.cwd()
+): Promise<DiscoveryResult> {
+  const result: DiscoveryResult = { inputs: [], skipped: [], failures: [] }
+  const visited = new Set<string>()
+  const inputDirs = new Set<string>()
+
+  /** Read a config file, or an inline project declared in `parent` */
+  const addConfig = async (entry: string | UserConfig, parent?: { file: string; root: string }): Promise<void> => {
+    let config: UserConfig
+    let file: string
+    let root: string
+
+    if (typeof entry === 'string') {
+      file = resolve(cwd, entry)
+      if (visited.has(file)) {
+        return
+      }
+      visited.add(file)
+
+      let evaluated: unknown
+      try {
+        if (!existsSync(file)) {
+          throw new Error('File not found')
+        }
+        evaluated = await evaluateConfig(file)
+      } catch (error) {
+        result.failures.push({ file, error: error instanceof Error ? error.message : String(error) })
+        return
+      }
+
+      // vitest.workspace files export a list of projects
+      if (Array.isArray(evaluated)) {
+        const workspace = { file, root: dirname(file) }
+        for (const project of resolveProjects(evaluated, workspace.root)) {
+          await addConfig(project, workspace)
+        }
+        return
+      }
+      if (typeof evaluated !== 'object' || evaluated === null) {
+        result.failures.push({ file, error: 'Expected the config to export an object' })
+        return
+      }
+      config = evaluated as UserConfig
+      root = resolve(dirname(file), config.test?.root ?? config.root ?? '.')
+    } else {
+      config = entry
+      file = parent!.file
+      root = resolve(parent!.root, config.test?.root ?? config.root ?? '.')
+    }
+
+    const test = config.test ?? {}
+    const coverage = test.coverage
+    if (coverage) {
+      const dir = resolve(root, coverage.reportsDirectory ?? 'coverage')
+      if (!inputDirs.has(dir)) {
+        inputDirs.add(dir)
+        const name = typeof test.name === 'object' ? test.name.label : test.name
+        result.inputs.push({
+          dir,
+          name,
+          config: file,
+          ...(coverage.include && { include: rebaseGlobs(coverage.include, root, cwd) }),
+          ...(coverage.exclude && { exclude: rebaseGlobs(coverage.exclude, root, cwd) }),
+        })
+      }
+    }
+
+    const projects = test.projects ?? (Array.isArray(test.workspace) ? test.workspace : undefined)
+    if (projects) {
+      for (const project of resolveProjects(projects, root)) {
+        await addConfig(project, { file, root })
+      }
+    } else if (typeof test.workspace === 'string') {
+      await addConfig(resolve(root, test.workspace))
+    } else if (!coverage && typeof entry === 'string') {
+      result.skipped.push(file)
+    }
+  }
+
+  for (const file of configFiles ?? findVitestConfigs(cwd)) {
+    await addConfig(file)
+  }
+
+  return result
+}
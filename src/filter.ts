@@ -0,0 +1,51 @@
+import type { CoverageMapData } from 'istanbul-lib-coverage'
+import picomatch from 'picomatch'
+import { toRelativePath } from './paths.js'
+
+export interface FileFilterOptions {
+  /** Only keep files matching at least one of these globs (all files when empty) */
+  include?: string[]
+  /** Drop files matching any of these globs, even when included */
+  exclude?: string[]
+  /** Directory the globs are relative to (default: current directory) */
+  root?: string
+}
+
+export interface FilterResult {
+  coverageMap: CoverageMapData
+  removed: number
+}
+
+/**
+ * Create a predicate for file paths, following vitest's `coverage.include`/`exclude`
+ * semantics: globs are matched against the path relative to the root, and
+ * exclude wins over include.
+ */
+export function createFileFilter(options: FileFilterOptions): (path: string) => boolean {
+  const { include = [], exclude = [], root = process.cwd() } = options
+  const isIncluded = include.length > 0 ? picomatch(include, { dot: true }) : () => true
+  const isExcluded = exclude.length > 0 ? picomatch(exclude, { dot: true }) : () => false
+
+  return (path: string) => {
+    const relativePath = toRelativePath(root, path)
+    return isIncluded(relativePath) && !isExcluded(relativePath)
+  }
+}
+
+/**
+ * Drop files rejected by the filter from a coverage map.
+ */
+export function filterCoverage(coverageMap: CoverageMapData, filter: (path: string) => boolean): FilterResult {
+  const filtered: CoverageMapData = {}
+  let removed = 0
+
+  for (const [path, fileData] of Object.entries(coverageMap)) {
+    if (filter(path)) {
+      filtered[path] = fileData
+    } else {
+      removed++
+    }
+  }
+
+  return { coverageMap: filtered, removed }
+}
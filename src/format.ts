@@ -0,0 +1,31 @@
+/**
+ * Format rows as a plain-text table with a header and aligned, pipe-separated columns.
+ */
+export function formatTable(header: string[], rows: string[][]): string {
+  const widths = header.map((title, col) =>
+    Math.max(title.length, ...rows.map((row) => row[col].length))
+  )
+  const formatRow = (row: string[]): string =>
+    row.map((cell, col) => cell.padEnd(widths[col])).join(' | ').trimEnd()
+
+  return [
+    formatRow(header),
+    widths.map((width) => '-'.repeat(width)).join('-|-'),
+    ...rows.map(formatRow),
+  ].join('\n')
+}
+
+/**
+ * Compress sorted line numbers into ranges, e.g. [3, 4, 5, 9] -> "3-5, 9".
+ */
+export function formatLineRanges(lines: number[]): string {
+  const ranges: string[] = []
+  let start = 0
+  for (let i = 1; i <= lines.length; i++) {
+    if (i === lines.length || lines[i] !== lines[i - 1] + 1) {
+      ranges.push(start === i - 1 ? `${lines[start]}` : `${lines[start]}-${lines[i - 1]}`)
+      start = i
+    }
+  }
+  return ranges.join(', ')
+}
@@ -1,143 +1,327 @@
-import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs'
+import { writeFileSync } from 'fs'
 import { join } from 'path'
-import libCoverage, { type CoverageMapData } from 'istanbul-lib-coverage'
-import libReport from 'istanbul-lib-report'
 import reports from 'istanbul-reports'
-import { normalizeCoverage } from './normalize.js'
-import { smartMergeCoverage } from './smart-merge.js'
+import type { NormalizeOptions } from './normalize.js'
+import { formatTable } from './format.js'
+import type { CollapsedPath } from './canonicalize.js'
+import {
+  attributeCoverage,
+  formatAttributionSummary,
+  summarizeAttribution,
+  type AttributionSummary,
+} from './attribution.js'
+import {
+  compareCoverage,
+  formatBaselineComparison,
+  loadBaseline,
+  type BaselineComparison,
+  type BaselineOptions,
+} from './baseline.js'
+import {
+  computeDiffCoverage,
+  formatDiffCoverage,
+  type DiffCoverageOptions,
+  type DiffCoverageResult,
+} from './diff-coverage.js'
+import { diagnoseMerge, formatDiagnostics, type FileDiagnostics } from './diagnostics.js'
+import { remapCoveragePaths, toRelativePath, type PathMapping } from './paths.js'
+import { consoleLogger, type Logger } from './logger.js'
+import {
+  formatCoverageSummary,
+  loadInputs,
+  mergeCoverageMaps,
+  summarizeCoverage,
+  writeCoverageReports,
+  type CoverageSummary,
+  type NormalizeCounts,
+} from './merge.js'
+import type { BranchMismatch, CountStrategy } from './smart-merge.js'
+import type { ItemCounts, MergeMode } from './union-merge.js'
+import {
+  checkThresholds,
+  formatThresholdFailures,
+  type ThresholdOptions,
+  type ThresholdResult,
+} from './thresholds.js'
+
+/**
+ * Per-reporter options passed to istanbul-reports, keyed by reporter name.
+ * e.g. `{ cobertura: { file: 'cobertura.xml' }, text: { maxCols: 120 } }`
+ */
+export type ReporterOptions = {
+  [K in keyof reports.ReportOptions]?: Partial<reports.ReportOptions[K]>
+}
+
+/**
+ * An input directory with settings that only apply to that input.
+ */
+export interface MergeInput {
+  /** Coverage directory, coverage file, or glob pattern matching either */
+  dir: string
+  /** Label used in attribution output (default: name of the input directory) */
+  name?: string
+  /** Path rewrites applied to this input before the global `pathMappings` */
+  pathMappings?: PathMapping[]
+  /**
+   * Directory relative paths in an lcov.info input are resolved against
+   * (default: the nearest directory above the lcov.info file that contains them)
+   */
+  root?: string
+  /**
+   * Only merge files of this input matching these globs, on top of the global `include`
+   * (relative to `relativeTo` or the current directory), e.g. its vitest `coverage.include`
+   */
+  include?: string[]
+  /** Never merge files of this input matching these globs, on top of the global `exclude` */
+  exclude?: string[]
+}
 
 export interface MergeOptions {
-  inputDirs: string[]
+  inputDirs: Array<string | MergeInput>
   outputDir: string
-  normalize?: boolean
+  /** Strip imports and directives before merging; an object configures what is stripped */
+  normalize?: boolean | NormalizeOptions
+  /** How hit counts of the same item are combined across inputs (default: max) */
+  countStrategy?: CountStrategy
+  /** Take the structure of the best input (default) or the union of all inputs */
+  mergeMode?: MergeMode
+  /** Path rewrites applied to every input before normalizing and merging */
+  pathMappings?: PathMapping[]
+  /** Emit paths relative to this directory in the merged output */
+  relativeTo?: string
+  /** Only merge files matching these globs (relative to `relativeTo` or the current directory) */
+  include?: string[]
+  /** Never merge files matching these globs */
+  exclude?: string[]
+  /** Add the files matching `include` that no input loaded, with zero coverage */
+  all?: boolean
   reporters?: string[]
+  reporterOptions?: ReporterOptions
+  thresholds?: ThresholdOptions
+  /** Write coverage-attribution.json and print which files have items covered by only one input */
+  attribution?: boolean
+  /** Write coverage-diagnostics.json and print how the items of each input were matched per file */
+  diagnostics?: boolean
+  /** Report coverage of the lines changed in a diff */
+  diffCoverage?: DiffCoverageOptions
+  /** Compare the merged coverage with a previous merge */
+  baseline?: BaselineOptions
+  /** Receives progress messages and reports (default: the console) */
+  logger?: Logger
 }
 
-export interface MergeResult {
-  totalFiles: number
-  statements: { covered: number; total: number; pct: number }
-  branches: { covered: number; total: number; pct: number }
-  functions: { covered: number; total: number; pct: number }
-  lines: { covered: number; total: number; pct: number }
+export interface MergeResult extends CoverageSummary {
+  /** Inputs that were loaded, with the label they were merged under */
+  inputs: Array<{ name: string; file: string }>
+  /** Input directories without a coverage file */
+  skippedInputs: string[]
+  /** Files that were reported under different identifiers and merged into one path */
+  collapsedPaths: CollapsedPath[]
+  /** What normalizing removed across all inputs, when `normalize` is enabled */
+  normalized?: NormalizeCounts
+  /** Items each input added to the merged structure, in `union` merge mode */
+  contributions?: Array<{ input: string } & ItemCounts>
+  /** Branches whose arms differ between inputs; only arms paired by range were merged */
+  branchMismatches: BranchMismatch[]
+  /** Files added with zero coverage because no input loaded them, when `all` is enabled */
+  untestedFiles?: string[]
+  thresholds?: ThresholdResult
+  /** "Covered only by" counts per file, when `attribution` is enabled */
+  attribution?: AttributionSummary[]
+  /** Per-file merge diagnostics, when `diagnostics` is enabled */
+  diagnostics?: FileDiagnostics[]
+  diffCoverage?: DiffCoverageResult
+  baseline?: BaselineComparison
 }
 
 /**
  * Merge coverage from multiple Vitest runs.
  *
- * This handles the jsdom vs browser statement count difference by
- * normalizing (stripping imports/directives) before merging.
+ * Loads the inputs, merges them (see mergeCoverageMaps), writes the reports to
+ * `outputDir` and runs the enabled checks. Progress and reports are printed through
+ * `logger`.
  */
 export async function mergeCoverage(options: MergeOptions): Promise<MergeResult> {
   const {
     inputDirs,
     outputDir,
-    normalize = false,
-    reporters = ['json', 'lcov', 'html'],
+    pathMappings = [],
+    relativeTo,
+    reporters,
+    reporterOptions,
+    thresholds,
+    attribution = false,
+    diagnostics = false,
+    diffCoverage,
+    baseline,
+    logger = consoleLogger,
   } = options
 
-  // Load all coverage data
-  const coverageMaps: CoverageMapData[] = []
-  let totalImportsRemoved = 0
-  let totalDirectivesRemoved = 0
+  const { inputs, skipped } = await loadInputs(inputDirs, { logger })
+  const merged = mergeCoverageMaps(inputs, { ...options, logger })
+  const mergedData = merged.coverageMap
 
-  for (const dir of inputDirs) {
-    const coverageFile = join(dir, 'coverage-final.json')
-
-    if (!existsSync(coverageFile)) {
-      console.log(`Skipped (no coverage-final.json): ${dir}`)
-      continue
-    }
+  writeCoverageReports(mergedData, { outputDir, reporters, reporterOptions, relativeTo, logger })
 
-    console.log(`Loading: ${coverageFile}`)
+  const result: MergeResult = {
+    ...summarizeCoverage(mergedData),
+    inputs: inputs.map(({ name, file }) => ({ name, file })),
+    skippedInputs: skipped,
+    collapsedPaths: merged.collapsedPaths,
+    normalized: merged.normalized,
+    contributions: merged.contributions,
+    branchMismatches: merged.branchMismatches,
+    untestedFiles: merged.untestedFiles,
+  }
 
-    const rawData = readFileSync(coverageFile, 'utf-8')
-    let coverageData: CoverageMapData = JSON.parse(rawData)
+  logger.log(`\n${formatCoverageSummary(result)}`)
 
-    if (normalize) {
-      const result = normalizeCoverage(coverageData)
-      coverageData = result.coverageMap
-      totalImportsRemoved += result.importsRemoved
-      totalDirectivesRemoved += result.directivesRemoved
+  if (attribution) {
+    const coverageAttribution = attributeCoverage(mergedData, merged.inputs)
+    if (relativeTo !== undefined) {
+      coverageAttribution.files = Object.fromEntries(
+        Object.entries(coverageAttribution.files).map(([file, data]) => [toRelativePath(relativeTo, file), data])
+      )
     }
+    writeFileSync(join(outputDir, 'coverage-attribution.json'), JSON.stringify(coverageAttribution, null, 2))
 
-    coverageMaps.push(coverageData)
-  }
-
-  if (normalize && (totalImportsRemoved > 0 || totalDirectivesRemoved > 0)) {
-    console.log(`Normalized: removed ${totalImportsRemoved} import(s), ${totalDirectivesRemoved} directive(s)`)
+    result.attribution = summarizeAttribution(coverageAttribution)
+    if (result.attribution.length > 0) {
+      logger.log('\nCovered by a single input:\n')
+      logger.log(formatAttributionSummary(result.attribution, coverageAttribution.inputs))
+    }
   }
 
-  // Smart merge coverage maps
-  // When normalize is false (default): preferUnion=true, use "more items wins" strategy
-  // When normalize is true: preferUnion=false, use "fewer items wins" strategy (no directive inflation)
-  const preferUnion = !normalize
-  const mergedData = smartMergeCoverage(coverageMaps, preferUnion)
-  const mergedMap = libCoverage.createCoverageMap(mergedData)
-
-  // Create output directory
-  if (!existsSync(outputDir)) {
-    mkdirSync(outputDir, { recursive: true })
+  if (diagnostics) {
+    result.diagnostics = diagnoseMerge(mergedData, merged.inputs, {
+      root: relativeTo ?? process.cwd(),
+      structureSources: merged.structureSources,
+    })
+    writeFileSync(join(outputDir, 'coverage-diagnostics.json'), JSON.stringify(result.diagnostics, null, 2))
+    logger.log('\nMerge diagnostics:\n')
+    logger.log(formatDiagnostics(result.diagnostics))
   }
 
-  // Write coverage-final.json
-  const coverageJson = JSON.stringify(mergedMap.toJSON(), null, 2)
-  writeFileSync(join(outputDir, 'coverage-final.json'), coverageJson)
-
-  // Generate reports
-  const context = libReport.createContext({
-    dir: outputDir,
-    defaultSummarizer: 'nested',
-    coverageMap: mergedMap,
-  })
-
-  // Use Set to avoid duplicate reporters
-  const uniqueReporters = [...new Set(reporters)]
-  for (const reporter of uniqueReporters) {
-    try {
-      const report = reports.create(reporter as keyof reports.ReportOptions)
-      report.execute(context)
-    } catch (error) {
-      console.warn(`Warning: Failed to generate ${reporter} report:`, error)
+  if (diffCoverage) {
+    result.diffCoverage = computeDiffCoverage(mergedData, diffCoverage)
+    logger.log('\nCoverage of changed lines:\n')
+    logger.log(formatDiffCoverage(result.diffCoverage))
+    if (!result.diffCoverage.passed) {
+      logger.warn(
+        `\nERROR: Coverage of changed lines (${result.diffCoverage.pct.toFixed(2)}%) is below ${result.diffCoverage.threshold}%`
+      )
     }
   }
 
-  // Calculate summary
-  const summary = mergedMap.getCoverageSummary()
+  if (baseline) {
+    const root = relativeTo ?? process.cwd()
+    const baselineData = remapCoveragePaths(await loadBaseline(baseline.file, root, logger), pathMappings)
+    result.baseline = compareCoverage(baselineData, mergedData, { tolerance: baseline.tolerance, root })
+    writeFileSync(join(outputDir, 'coverage-comparison.json'), JSON.stringify(result.baseline, null, 2))
 
-  const result: MergeResult = {
-    totalFiles: Object.keys(mergedMap.toJSON()).length,
-    statements: {
-      covered: summary.statements.covered,
-      total: summary.statements.total,
-      pct: summary.statements.pct,
-    },
-    branches: {
-      covered: summary.branches.covered,
-      total: summary.branches.total,
-      pct: summary.branches.pct,
-    },
-    functions: {
-      covered: summary.functions.covered,
-      total: summary.functions.total,
-      pct: summary.functions.pct,
-    },
-    lines: {
-      covered: summary.lines.covered,
-      total: summary.lines.total,
-      pct: summary.lines.pct,
-    },
+    logger.log(`\nCompared with baseline: ${baseline.file}\n`)
+    logger.log(formatBaselineComparison(result.baseline))
+    if (!result.baseline.passed) {
+      logger.warn(`\nERROR: Coverage dropped by more than ${baseline.tolerance}% compared with the baseline\n`)
+      logger.log(
+        formatTable(
+          ['Scope', 'Metric', 'Delta'],
+          result.baseline.regressions.map(({ scope, metric, delta }) => [scope, metric, delta.toFixed(2)])
+        )
+      )
+    }
   }
 
-  // Print summary
-  console.log('\n=============================== Coverage summary ===============================')
-  console.log(`Statements   : ${result.statements.pct.toFixed(2)}% ( ${result.statements.covered}/${result.statements.total} )`)
-  console.log(`Branches     : ${result.branches.pct.toFixed(2)}% ( ${result.branches.covered}/${result.branches.total} )`)
-  console.log(`Functions    : ${result.functions.pct.toFixed(2)}% ( ${result.functions.covered}/${result.functions.total} )`)
-  console.log(`Lines        : ${result.lines.pct.toFixed(2)}% ( ${result.lines.covered}/${result.lines.total} )`)
-  console.log('================================================================================')
+  if (thresholds) {
+    result.thresholds = checkThresholds(mergedData, thresholds, relativeTo)
+    if (!result.thresholds.passed) {
+      logger.warn('\nERROR: Coverage thresholds not met\n')
+      logger.log(formatThresholdFailures(result.thresholds.failures))
+    }
+  }
 
   return result
 }
 
 // Re-export for programmatic use
-export { normalizeCoverage } from './normalize.js'
+export { normalizeCoverage, DEFAULT_DIRECTIVES } from './normalize.js'
+export type { NormalizeOptions, NormalizeResult, SourceStatement, StripRule } from './normalize.js'
+export {
+  loadInputs,
+  mergeCoverageMaps,
+  summarizeCoverage,
+  formatCoverageSummary,
+  writeCoverageReports,
+} from './merge.js'
+export type {
+  CoverageMapInput,
+  CoverageSummary,
+  LoadedInput,
+  LoadInputsOptions,
+  LoadInputsResult,
+  MergeCoverageMapsOptions,
+  MergeCoverageMapsResult,
+  NormalizeCounts,
+  WriteReportsOptions,
+} from './merge.js'
+export { consoleLogger, silentLogger } from './logger.js'
+export type { Logger } from './logger.js'
+export { defineConfig, loadConfig } from './config.js'
+export type { MergeConfig, LoadedConfig } from './config.js'
+export { checkThresholds, formatThresholdFailures } from './thresholds.js'
+export { parseLcov } from './lcov.js'
+export { expandInputPatterns, findCoverageInput, loadCoverageInput } from './inputs.js'
+export { remapPath, remapCoveragePaths, relativizeCoveragePaths } from './paths.js'
+export type { PathMapping } from './paths.js'
+export { canonicalizePath, canonicalizeCoverage } from './canonicalize.js'
+export { createFileFilter, filterCoverage } from './filter.js'
+export { computeDiffCoverage, parseUnifiedDiff, readGitDiff, formatDiffCoverage } from './diff-coverage.js'
+export type { DiffCoverageOptions, DiffCoverageResult, FileDiffCoverage } from './diff-coverage.js'
+export { compareCoverage, loadBaseline, formatBaselineComparison } from './baseline.js'
+export type {
+  BaselineOptions,
+  BaselineComparison,
+  FileComparison,
+  MetricDelta,
+  MetricDeltas,
+  Regression,
+} from './baseline.js'
+export { attributeCoverage, summarizeAttribution, formatAttributionSummary } from './attribution.js'
+export { diagnoseMerge, formatDiagnostics } from './diagnostics.js'
+export type {
+  DiagnosticsInput,
+  DiagnosticsOptions,
+  DroppedItem,
+  FileDiagnostics,
+  InputDiagnostics,
+  ItemKind,
+} from './diagnostics.js'
+export type {
+  AttributionInput,
+  AttributionSummary,
+  CoverageAttribution,
+  ExclusiveCounts,
+  FileAttribution,
+} from './attribution.js'
+export type { FileFilterOptions, FilterResult } from './filter.js'
+export type { CollapsedPath, CanonicalizeResult } from './canonicalize.js'
+export { smartMergeCoverage, smartMergeCoverageWithReport, COUNT_STRATEGIES } from './smart-merge.js'
+export type { BranchMismatch, BranchShape, CountStrategy, SmartMergeResult } from './smart-merge.js'
+export { unionMergeCoverage, MERGE_MODES } from './union-merge.js'
+export type { ItemCounts, MergeMode, UnionMergeResult } from './union-merge.js'
+export { convertV8Coverage, loadV8Coverage } from './v8.js'
+export { addUntestedFiles, emptyFileCoverage } from './untested.js'
+export type { UntestedFilesOptions, UntestedFilesResult } from './untested.js'
+export { discoverVitestInputs, findVitestConfigs, VITEST_CONFIG_PATTERNS } from './discover.js'
+export type { DiscoveredInput, DiscoveryResult } from './discover.js'
+export { watchFiles, formatSummaryDelta, inputWatchPath } from './watch.js'
+export type { CoverageTotals, Watcher, WatchOptions } from './watch.js'
+export type { CoverageInput, CoverageInputFormat } from './inputs.js'
+export type {
+  CoverageMetric,
+  ThresholdMetrics,
+  GlobThresholds,
+  ThresholdOptions,
+  ThresholdFailure,
+  ThresholdResult,
+} from './thresholds.js'
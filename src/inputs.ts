@@ -0,0 +1,146 @@
+import { readFileSync, existsSync, statSync } from 'fs'
+import { basename, dirname, isAbsolute, join, resolve } from 'path'
+import type { CoverageMapData } from 'istanbul-lib-coverage'
+import { globSync, isDynamicPattern } from 'tinyglobby'
+import { parseLcov } from './lcov.js'
+import { consoleLogger, type Logger } from './logger.js'
+import { findV8CoverageFiles, isV8CoverageFileName, loadV8Coverage } from './v8.js'
+
+export type CoverageInputFormat = 'istanbul' | 'lcov' | 'v8'
+
+export interface CoverageInput {
+  /** Directory the input was found in */
+  dir: string
+  /** Path of the coverage file that will be loaded (for a directory of raw V8 dumps, the directory itself) */
+  file: string
+  format: CoverageInputFormat
+}
+
+/**
+ * Coverage files looked up in each input directory, in order of preference.
+ */
+export const COVERAGE_INPUT_FILES: ReadonlyArray<{ name: string; format: CoverageInputFormat }> = [
+  { name: 'coverage-final.json', format: 'istanbul' },
+  { name: 'lcov.info', format: 'lcov' },
+]
+
+/**
+ * Human-readable list of supported coverage files, for skip/error messages.
+ */
+export const COVERAGE_INPUT_NAMES = [
+  ...COVERAGE_INPUT_FILES.map(({ name }) => name),
+  'raw V8 coverage',
+].join(' or ')
+
+/**
+ * Expand input patterns into concrete paths.
+ *
+ * Glob patterns match both directories and files. Each pattern's matches are sorted,
+ * and the results keep the order of the patterns so "component tests last" conventions
+ * still apply.
+ * Duplicates are dropped, keeping the first occurrence.
+ */
+export function expandInputPatterns(patterns: string[], cwd: string = process.cwd()): string[] {
+  const seen = new Set<string>()
+  const result: string[] = []
+
+  for (const pattern of patterns) {
+    const matches = isDynamicPattern(pattern)
+      ? globSync(pattern, { cwd, absolute: true, onlyFiles: false, expandDirectories: false })
+          .map((match) => resolve(match))
+          .sort()
+      : [resolve(cwd, pattern)]
+
+    for (const match of matches) {
+      if (!seen.has(match)) {
+        seen.add(match)
+        result.push(match)
+      }
+    }
+  }
+
+  return result
+}
+
+function detectFileFormat(file: string): CoverageInputFormat {
+  const name = basename(file)
+  if (name.endsWith('.info')) {
+    return 'lcov'
+  }
+  return isV8CoverageFileName(name) ? 'v8' : 'istanbul'
+}
+
+/**
+ * Detect which coverage file a directory provides, or the format of a coverage file.
+ * coverage-final.json is preferred over lcov.info because it keeps column information;
+ * raw V8 dumps are used only when neither is present.
+ */
+export function findCoverageInput(path: string): CoverageInput | null {
+  if (!existsSync(path)) {
+    return null
+  }
+  if (statSync(path).isFile()) {
+    return { dir: dirname(path), file: path, format: detectFileFormat(path) }
+  }
+
+  const dir = path
+  for (const { name, format } of COVERAGE_INPUT_FILES) {
+    const file = join(dir, name)
+    if (existsSync(file)) {
+      return { dir, file, format }
+    }
+  }
+  // Only NODE_V8_COVERAGE dumps: the ones vitest's v8 provider keeps in .tmp cover
+  // Vite-transformed code, which can't be mapped back without Vite's transform results
+  if (findV8CoverageFiles(dir).length > 0) {
+    return { dir, file: dir, format: 'v8' }
+  }
+  return null
+}
+
+/**
+ * Directory that relative SF paths of an lcov.info file are resolved against: reporters write
+ * them relative to the project root, so take the nearest directory, starting at the file's
+ * own, that contains one of them. Falls back to the file's directory.
+ */
+function findLcovRoot(content: string, file: string): string {
+  const relativePaths = [...content.matchAll(/^\s*SF:(.*?)\s*$/gm)]
+    .map(([, path]) => path)
+    .filter((path) => !isAbsolute(path))
+  const start = dirname(file)
+  for (let dir = start; relativePaths.length > 0; dir = dirname(dir)) {
+    if (relativePaths.some((path) => existsSync(resolve(dir, path)))) {
+      return dir
+    }
+    if (dirname(dir) === dir) {
+      break
+    }
+  }
+  return start
+}
+
+/**
+ * Load a coverage input as Istanbul coverage data.
+ *
+ * @param root - Directory relative SF paths of an lcov.info input are resolved against
+ *   (default: the nearest directory above the file that contains them)
+ */
+export async function loadCoverageInput(
+  input: CoverageInput,
+  logger: Logger = consoleLogger,
+  root?: string
+): Promise<CoverageMapData> {
+  switch (input.format) {
+    case 'v8':
+      return loadV8Coverage(
+        statSync(input.file).isDirectory() ? findV8CoverageFiles(input.file) : [input.file],
+        logger
+      )
+    case 'lcov': {
+      const content = readFileSync(input.file, 'utf-8')
+      return parseLcov(content, root ? resolve(root) : findLcovRoot(content, input.file))
+    }
+    case 'istanbul':
+      return JSON.parse(readFileSync(input.file, 'utf-8'))
+  }
+}
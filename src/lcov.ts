@@ -0,0 +1,189 @@
+import { isAbsolute, resolve } from 'path'
+import type { CoverageMapData, FileCoverageData, Range } from 'istanbul-lib-coverage'
+
+/**
+ * LCOV has no column information, so every item spans a whole line starting at column 0.
+ * smartMergeCoverage treats items without columns as covering their whole lines, which
+ * lets LCOV-derived data merge with coverage-final.json from other runs.
+ */
+function lineRange(startLine: number, endLine: number = startLine): Range {
+  return { start: { line: startLine, column: 0 }, end: { line: endLine, column: 0 } }
+}
+
+/** Line numbers (and branch arm indexes) must be integers; anything else makes the record invalid */
+function parseIndex(value: string | undefined, min: number): number | null {
+  const index = Number(value)
+  return value !== undefined && value !== '' && Number.isInteger(index) && index >= min ? index : null
+}
+
+function parseCount(value: string): number {
+  const count = Number(value)
+  return Number.isFinite(count) && count > 0 ? count : 0
+}
+
+interface LcovFunction {
+  line: number
+  endLine: number
+}
+
+interface LcovRecord {
+  path: string
+  lines: Map<number, number>
+  functions: Map<string, LcovFunction>
+  functionCounts: Map<string, number>
+  branches: Map<string, { line: number; counts: number[] }>
+}
+
+function createRecord(path: string): LcovRecord {
+  return {
+    path,
+    lines: new Map(),
+    functions: new Map(),
+    functionCounts: new Map(),
+    branches: new Map(),
+  }
+}
+
+function recordToFileCoverage(record: LcovRecord): FileCoverageData {
+  const data: FileCoverageData = {
+    path: record.path,
+    statementMap: {},
+    s: {},
+    fnMap: {},
+    f: {},
+    branchMap: {},
+    b: {},
+  }
+
+  // One statement per DA line
+  const lines = [...record.lines.entries()].sort(([a], [b]) => a - b)
+  lines.forEach(([line, count], i) => {
+    data.statementMap[i] = lineRange(line)
+    data.s[i] = count
+  })
+
+  let fnIndex = 0
+  for (const [name, fn] of record.functions) {
+    data.fnMap[fnIndex] = {
+      name,
+      decl: lineRange(fn.line),
+      loc: lineRange(fn.line, fn.endLine),
+      line: fn.line,
+    }
+    data.f[fnIndex] = record.functionCounts.get(name) ?? 0
+    fnIndex++
+  }
+
+  let branchIndex = 0
+  for (const { line, counts } of record.branches.values()) {
+    data.branchMap[branchIndex] = {
+      loc: lineRange(line),
+      type: 'branch',
+      locations: counts.map(() => lineRange(line)),
+      line,
+    }
+    data.b[branchIndex] = counts
+    branchIndex++
+  }
+
+  return data
+}
+
+/**
+ * Parse an LCOV tracefile (lcov.info) into Istanbul coverage data.
+ *
+ * Supports the SF, FN, FNDA, DA and BRDA records; summary records (LF/LH, FNF/FNH,
+ * BRF/BRH) are ignored because istanbul recomputes them, and so are DA, FN and BRDA
+ * records without a valid line number. Relative SF paths are resolved against `root`.
+ *
+ * @param content - Contents of the lcov.info file
+ * @param root - Directory that relative SF paths are resolved against
+ */
+export function parseLcov(content: string, root: string = process.cwd()): CoverageMapData {
+  const coverageMap: CoverageMapData = {}
+  let record: LcovRecord | null = null
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (line === 'end_of_record') {
+      if (record) {
+        coverageMap[record.path] = recordToFileCoverage(record)
+      }
+      record = null
+      continue
+    }
+
+    const separator = line.indexOf(':')
+    if (separator === -1) {
+      continue
+    }
+    const tag = line.slice(0, separator)
+    const value = line.slice(separator + 1)
+
+    if (tag === 'SF') {
+      const path = isAbsolute(value) ? value : resolve(root, value)
+      record = createRecord(path)
+      continue
+    }
+
+    if (!record) {
+      continue
+    }
+
+    const parts = value.split(',')
+    switch (tag) {
+      case 'DA': {
+        // DA:<line>,<count>[,<checksum>]
+        const lineNum = parseIndex(parts[0], 1)
+        if (lineNum === null) {
+          break
+        }
+        const count = parseCount(parts[1])
+        record.lines.set(lineNum, Math.max(record.lines.get(lineNum) ?? 0, count))
+        break
+      }
+      case 'FN': {
+        // FN:<line>,<name> or FN:<start line>,<end line>,<name> (lcov 2.x)
+        const lineNum = parseIndex(parts[0], 1)
+        if (lineNum === null) {
+          break
+        }
+        const hasEndLine = parts.length > 2 && /^\d+$/.test(parts[1])
+        const name = parts.slice(hasEndLine ? 2 : 1).join(',')
+        const endLine = hasEndLine ? Number(parts[1]) : lineNum
+        record.functions.set(name, { line: lineNum, endLine })
+        break
+      }
+      case 'FNDA': {
+        // FNDA:<count>,<name>
+        const name = parts.slice(1).join(',')
+        const count = parseCount(parts[0])
+        record.functionCounts.set(name, Math.max(record.functionCounts.get(name) ?? 0, count))
+        break
+      }
+      case 'BRDA': {
+        // BRDA:<line>,<block>,<branch>,<taken> where taken is '-' when never evaluated
+        const lineNum = parseIndex(parts[0], 1)
+        const arm = parseIndex(parts[2], 0)
+        if (lineNum === null || arm === null) {
+          break
+        }
+        const blockKey = `${lineNum}:${parts[1]}`
+        const branch = record.branches.get(blockKey) ?? { line: lineNum, counts: [] }
+        while (branch.counts.length <= arm) {
+          branch.counts.push(0)
+        }
+        branch.counts[arm] = parseCount(parts[3])
+        record.branches.set(blockKey, branch)
+        break
+      }
+    }
+  }
+
+  // Tolerate a missing trailing end_of_record
+  if (record) {
+    coverageMap[record.path] = recordToFileCoverage(record)
+  }
+
+  return coverageMap
+}
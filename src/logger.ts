@@ -0,0 +1,25 @@
+/**
+ * Receives the messages printed while merging.
+ */
+export interface Logger {
+  /** Progress: inputs loaded or skipped, files dropped, paths collapsed... */
+  info(message: string): void
+  /** Results: the coverage summary and the reports of enabled checks */
+  log(message: string): void
+  /** Problems that don't stop the merge, and failed checks */
+  warn(message: string): void
+}
+
+/** Prints to the console (the default) */
+export const consoleLogger: Logger = {
+  info: (message) => console.log(message),
+  log: (message) => console.log(message),
+  warn: (message) => console.warn(message),
+}
+
+/** Discards all output */
+export const silentLogger: Logger = {
+  info: () => {},
+  log: () => {},
+  warn: () => {},
+}
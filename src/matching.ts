@@ -0,0 +1,159 @@
+import type { FileCoverageData } from 'istanbul-lib-coverage'
+
+type Position = { line: number; column: number | null | undefined }
+type ItemRange = { start: Position; end: Position }
+
+/**
+ * A statement, function or branch to match, identified by its key in the
+ * coverage data.
+ */
+export interface MatchItem {
+  key: string
+  loc: ItemRange
+  /** Function name; names of anonymous functions are ignored */
+  name?: string
+  /** Branch type; items of the same kind are preferred over others */
+  kind?: string
+}
+
+/** Weight of a line difference relative to a column difference */
+const LINE_WEIGHT = 100_000
+
+/**
+ * Items without column data (e.g. from LCOV, where start and end are both column 0)
+ * span their whole lines.
+ */
+function hasColumns({ start, end }: ItemRange): boolean {
+  return end.line > start.line || (end.column ?? 0) > (start.column ?? 0)
+}
+
+function comparePositions(a: Position, b: Position): number {
+  return a.line - b.line || (a.column ?? 0) - (b.column ?? 0)
+}
+
+function overlaps(a: ItemRange, b: ItemRange): boolean {
+  if (!hasColumns(a) || !hasColumns(b)) {
+    return a.start.line <= b.end.line && b.start.line <= a.end.line
+  }
+  return comparePositions(a.start, b.end) < 0 && comparePositions(b.start, a.end) < 0
+}
+
+/**
+ * How far apart two ranges are: the distance between their starts plus the distance
+ * between their ends, with lines weighing more than columns.
+ */
+function rangeDistance(a: ItemRange, b: ItemRange): number {
+  const lines = Math.abs(a.start.line - b.start.line) + Math.abs(a.end.line - b.end.line)
+  if (!hasColumns(a) || !hasColumns(b)) {
+    return lines * LINE_WEIGHT
+  }
+  const columns =
+    Math.abs((a.start.column ?? 0) - (b.start.column ?? 0)) + Math.abs((a.end.column ?? 0) - (b.end.column ?? 0))
+  return lines * LINE_WEIGHT + columns
+}
+
+function isNamed(name: string | undefined): name is string {
+  return !!name && !name.startsWith('(anonymous')
+}
+
+function byLine(items: MatchItem[]): Map<number, MatchItem[]> {
+  const lines = new Map<number, MatchItem[]>()
+  const add = (line: number, item: MatchItem): void => {
+    const bucket = lines.get(line)
+    if (!bucket) {
+      lines.set(line, [item])
+    } else if (bucket[bucket.length - 1] !== item) {
+      bucket.push(item)
+    }
+  }
+  for (const item of items) {
+    add(item.loc.start.line, item)
+    add(item.loc.end.line, item)
+  }
+  return lines
+}
+
+/**
+ * Pair each target item with the source item that corresponds to it, one to one.
+ *
+ * Candidates are source items whose range overlaps the target's range and that start
+ * or end on one of its lines, plus functions with the same name (which catches
+ * functions whose location drifted between transforms). Pairs are assigned greedily:
+ * same-named functions first, then items of the same kind, then by increasing range
+ * distance, then in key order, so an exact match always wins and a source item never
+ * counts for two targets.
+ *
+ * @returns target key -> source key
+ */
+export function matchItems(targets: MatchItem[], sources: MatchItem[]): Map<string, string> {
+  const sourcesByLine = byLine(sources)
+  const sourcesByName = new Map<string, MatchItem[]>()
+  for (const source of sources) {
+    if (isNamed(source.name)) {
+      const named = sourcesByName.get(source.name)
+      if (named) {
+        named.push(source)
+      } else {
+        sourcesByName.set(source.name, [source])
+      }
+    }
+  }
+
+  const pairs: Array<{ target: number; source: MatchItem; named: boolean; sameKind: boolean; distance: number }> = []
+  targets.forEach((target, index) => {
+    const candidates = new Set([
+      ...(sourcesByLine.get(target.loc.start.line) ?? []),
+      ...(sourcesByLine.get(target.loc.end.line) ?? []),
+    ])
+    const sameName = isNamed(target.name) ? sourcesByName.get(target.name) ?? [] : []
+    for (const source of sameName) {
+      candidates.add(source)
+    }
+
+    for (const source of candidates) {
+      const named = sameName.includes(source)
+      if (named || overlaps(target.loc, source.loc)) {
+        const sameKind = target.kind === source.kind
+        pairs.push({ target: index, source, named, sameKind, distance: rangeDistance(target.loc, source.loc) })
+      }
+    }
+  })
+
+  const sourceOrder = new Map(sources.map((source, index) => [source, index]))
+  pairs.sort(
+    (a, b) =>
+      Number(b.named) - Number(a.named) ||
+      Number(b.sameKind) - Number(a.sameKind) ||
+      a.distance - b.distance ||
+      a.target - b.target ||
+      sourceOrder.get(a.source)! - sourceOrder.get(b.source)!
+  )
+
+  const matches = new Map<string, string>()
+  const usedSources = new Set<MatchItem>()
+  for (const { target, source } of pairs) {
+    const targetKey = targets[target].key
+    if (!matches.has(targetKey) && !usedSources.has(source)) {
+      matches.set(targetKey, source.key)
+      usedSources.add(source)
+    }
+  }
+  return matches
+}
+
+export interface FileItems {
+  statements: MatchItem[]
+  functions: MatchItem[]
+  branches: MatchItem[]
+}
+
+/**
+ * The statements, functions (with their names) and branches (with their types) of a file.
+ */
+export function fileItems(data: FileCoverageData): FileItems {
+  return {
+    statements: Object.entries(data.statementMap).map(([key, loc]) => ({ key, loc })),
+    functions: Object.entries(data.fnMap).map(([key, fn]) => ({ key, loc: fn.loc, name: fn.name })),
+    branches: Object.entries(data.branchMap).map(([key, branch]) => ({ key, loc: branch.loc, kind: branch.type })),
+  }
+}
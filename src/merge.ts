@@ -0,0 +1,408 @@
+import { writeFileSync, mkdirSync, existsSync } from 'fs'
+import { basename, join } from 'path'
+import libCoverage, { type CoverageMapData, type FileCoverageData } from 'istanbul-lib-coverage'
+import libReport from 'istanbul-lib-report'
+import reports from 'istanbul-reports'
+import { normalizeCoverage, type NormalizeOptions } from './normalize.js'
+import { canonicalizeCoverage, type CollapsedPath } from './canonicalize.js'
+import { createFileFilter, filterCoverage } from './filter.js'
+import { remapCoveragePaths, relativizeCoveragePaths, toRelativePath, type PathMapping } from './paths.js'
+import { expandInputPatterns, findCoverageInput, loadCoverageInput, COVERAGE_INPUT_NAMES } from './inputs.js'
+import { smartMergeCoverageWithReport, type BranchMismatch, type BranchShape, type CountStrategy } from './smart-merge.js'
+import { unionMergeCoverage, type ItemCounts, type MergeMode } from './union-merge.js'
+import { addUntestedFiles } from './untested.js'
+import { consoleLogger, type Logger } from './logger.js'
+import type { MergeInput, ReporterOptions } from './index.js'
+
+/**
+ * Coverage data of one input, ready to be merged.
+ */
+export interface CoverageMapInput {
+  /** Label used in messages and attribution */
+  name: string
+  coverageMap: CoverageMapData
+  /** Path rewrites applied to this input before the global `pathMappings` */
+  pathMappings?: PathMapping[]
+  /** Only merge files of this input matching these globs, on top of the global `include` */
+  include?: string[]
+  /** Never merge files of this input matching these globs, on top of the global `exclude` */
+  exclude?: string[]
+}
+
+/** An input read from disk */
+export interface LoadedInput extends CoverageMapInput {
+  /** Coverage file (or V8 dump directory) the data was read from */
+  file: string
+}
+
+export interface LoadInputsOptions {
+  logger?: Logger
+}
+
+export interface LoadInputsResult {
+  inputs: LoadedInput[]
+  /** Directories without a coverage file */
+  skipped: string[]
+}
+
+export interface MergeCoverageMapsOptions {
+  /** Strip imports and directives before merging; an object configures what is stripped */
+  normalize?: boolean | NormalizeOptions
+  /** How hit counts of the same item are combined across inputs (default: max) */
+  countStrategy?: CountStrategy
+  /** Take the structure of the best input (default) or the union of all inputs */
+  mergeMode?: MergeMode
+  /** Path rewrites applied to every input after its own `pathMappings` */
+  pathMappings?: PathMapping[]
+  /** Directory `include`/`exclude` globs are relative to, also used to shorten paths in messages */
+  relativeTo?: string
+  /** Only merge files matching these globs */
+  include?: string[]
+  /** Never merge files matching these globs */
+  exclude?: string[]
+  /** Add the files matching `include` that no input loaded, with zero coverage */
+  all?: boolean
+  logger?: Logger
+}
+
+export interface NormalizeCounts {
+  importsRemoved: number
+  directivesRemoved: number
+  /** Statements removed by each custom rule, keyed by rule name */
+  ruleCounts: Record<string, number>
+}
+
+export interface MergeCoverageMapsResult {
+  /** Merged coverage, keyed by absolute path */
+  coverageMap: CoverageMapData
+  /** The inputs as they were merged: canonicalized, remapped, filtered and normalized */
+  inputs: CoverageMapInput[]
+  /** Files that were reported under different identifiers and merged into one path */
+  collapsedPaths: CollapsedPath[]
+  /** What normalizing removed across all inputs, when `normalize` is enabled */
+  normalized?: NormalizeCounts
+  /** Items each input added to the merged structure, in `union` merge mode */
+  contributions?: Array<{ input: string } & ItemCounts>
+  /** Branches whose arms differ between inputs; only arms paired by range were merged */
+  branchMismatches: BranchMismatch[]
+  /** Index of the input whose structure each file was built on, in `best` merge mode */
+  structureSources?: Record<string, number>
+  /** Files added with zero coverage because no input loaded them, when `all` is enabled */
+  untestedFiles?: string[]
+}
+
+export interface CoverageSummary {
+  totalFiles: number
+  statements: { covered: number; total: number; pct: number }
+  branches: { covered: number; total: number; pct: number }
+  functions: { covered: number; total: number; pct: number }
+  lines: { covered: number; total: number; pct: number }
+}
+
+export interface WriteReportsOptions {
+  outputDir: string
+  reporters?: string[]
+  reporterOptions?: ReporterOptions
+  /** Emit paths relative to this directory */
+  relativeTo?: string
+  logger?: Logger
+}
+
+/**
+ * Find and read the coverage files of the given inputs (directories, files or globs).
+ *
+ * A file reached through more than one input is only loaded once, and inputs are
+ * labeled by directory name unless they are named, with `#2`, `#3`... appended to
+ * keep labels unique.
+ */
+export async function loadInputs(
+  inputDirs: Array<string | MergeInput>,
+  options: LoadInputsOptions = {}
+): Promise<LoadInputsResult> {
+  const { logger = consoleLogger } = options
+  const result: LoadInputsResult = { inputs: [], skipped: [] }
+  const loadedFiles = new Set<string>()
+  const usedNames = new Set<string>()
+
+  for (const entry of inputDirs) {
+    const { dir: pattern, name: inputName, pathMappings, root, include, exclude }: MergeInput =
+      typeof entry === 'string' ? { dir: entry } : entry
+
+    for (const dir of expandInputPatterns([pattern])) {
+      const input = findCoverageInput(dir)
+
+      if (!input) {
+        logger.info(`Skipped (no ${COVERAGE_INPUT_NAMES}): ${dir}`)
+        result.skipped.push(dir)
+        continue
+      }
+
+      // The same file can be reached through its directory and a direct path or glob
+      if (loadedFiles.has(input.file)) {
+        continue
+      }
+      loadedFiles.add(input.file)
+
+      logger.info(`Loading: ${input.file}`)
+
+      // Label inputs by directory name, keeping labels unique
+      const baseName = inputName ?? basename(input.dir)
+      let name = baseName
+      for (let n = 2; usedNames.has(name); n++) {
+        name = `${baseName}#${n}`
+      }
+      usedNames.add(name)
+
+      result.inputs.push({
+        name,
+        file: input.file,
+        coverageMap: await loadCoverageInput(input, logger, root),
+        pathMappings,
+        include,
+        exclude,
+      })
+    }
+  }
+
+  return result
+}
+
+/**
+ * Copy the statements of every file: normalizeCoverage deletes them in place, and the
+ * earlier steps only copy the top level, so it would edit the caller's coverage maps.
+ */
+function copyStatements(coverageMap: CoverageMapData): CoverageMapData {
+  return Object.fromEntries(
+    Object.entries(coverageMap).map(([path, fileData]) => {
+      const data = fileData as FileCoverageData
+      return [path, { ...data, statementMap: { ...data.statementMap }, s: { ...data.s } }]
+    })
+  )
+}
+
+/**
+ * Merge coverage data that is already in memory.
+ *
+ * Paths are canonicalized and remapped, inputs are filtered and (optionally) normalized,
+ * then merged. Nothing is written; only normalizing and the `all` option read source
+ * files.
+ *
+ * This handles the jsdom vs browser statement count difference by
+ * normalizing (stripping imports/directives) before merging.
+ */
+export function mergeCoverageMaps(
+  inputs: CoverageMapInput[],
+  options: MergeCoverageMapsOptions = {}
+): MergeCoverageMapsResult {
+  const {
+    normalize = false,
+    countStrategy = 'max',
+    mergeMode = 'best',
+    pathMappings = [],
+    relativeTo,
+    include = [],
+    exclude = [],
+    all = false,
+    logger = consoleLogger,
+  } = options
+
+  if (all && include.length === 0) {
+    throw new Error('The all option needs include globs to find the source files')
+  }
+
+  // Collapse Vite-style identifiers (/@fs/, file://, ?v=hash, C:\...) into plain paths
+  const canonical = canonicalizeCoverage(inputs.map(({ coverageMap }) => coverageMap))
+  if (canonical.collapsed.length > 0) {
+    logger.info(`Canonicalized: ${canonical.collapsed.length} file(s) reported under different identifiers`)
+    for (const { path, keys } of canonical.collapsed) {
+      logger.info(`  ${path} <- ${keys.join(', ')}`)
+    }
+  }
+
+  const processed: CoverageMapInput[] = []
+  const normalized: NormalizeCounts = { importsRemoved: 0, directivesRemoved: 0, ruleCounts: {} }
+
+  const fileFilter = createFileFilter({ include, exclude, root: relativeTo })
+
+  for (const [index, input] of inputs.entries()) {
+    // Rewrite paths before normalizing so inputs from different machines line up
+    // and normalization can read the sources locally
+    let coverageData = remapCoveragePaths(canonical.coverageMaps[index], [
+      ...(input.pathMappings ?? []),
+      ...pathMappings,
+    ])
+
+    const filters = [
+      ...(include.length > 0 || exclude.length > 0 ? [fileFilter] : []),
+      // Each input may come with its own globs, e.g. those of the vitest config that wrote it
+      ...(input.include?.length || input.exclude?.length
+        ? [createFileFilter({ include: input.include, exclude: input.exclude, root: relativeTo })]
+        : []),
+    ]
+    if (filters.length > 0) {
+      const filtered = filterCoverage(coverageData, (path) => filters.every((filter) => filter(path)))
+      coverageData = filtered.coverageMap
+      if (filtered.removed > 0) {
+        logger.info(`Filtered: dropped ${filtered.removed} file(s) from ${input.name}`)
+      }
+    }
+
+    if (normalize) {
+      const result = normalizeCoverage(copyStatements(coverageData), normalize === true ? {} : normalize)
+      coverageData = result.coverageMap
+      normalized.importsRemoved += result.importsRemoved
+      normalized.directivesRemoved += result.directivesRemoved
+      for (const [name, count] of Object.entries(result.ruleCounts)) {
+        normalized.ruleCounts[name] = (normalized.ruleCounts[name] ?? 0) + count
+      }
+    }
+
+    processed.push({ name: input.name, coverageMap: coverageData })
+  }
+
+  const ruleRemovals = Object.entries(normalized.ruleCounts).filter(([, count]) => count > 0)
+  if (normalize && (normalized.importsRemoved > 0 || normalized.directivesRemoved > 0 || ruleRemovals.length > 0)) {
+    const removed = [
+      `${normalized.importsRemoved} import(s)`,
+      `${normalized.directivesRemoved} directive(s)`,
+      ...ruleRemovals.map(([name, count]) => `${count} statement(s) matching ${name}`),
+    ]
+    logger.info(`Normalized: removed ${removed.join(', ')}`)
+  }
+
+  const result: MergeCoverageMapsResult = {
+    coverageMap: {},
+    inputs: processed,
+    collapsedPaths: canonical.collapsed,
+    normalized: normalize ? normalized : undefined,
+    branchMismatches: [],
+  }
+
+  // Smart merge coverage maps
+  // When normalize is false (default): preferUnion=true, use "more items wins" strategy
+  // When normalize is true: preferUnion=false, use "fewer items wins" strategy (no directive inflation)
+  // In union mode, every item of every input is kept instead
+  const preferUnion = !normalize
+  const coverageMaps = processed.map(({ coverageMap }) => coverageMap)
+  if (mergeMode === 'union') {
+    const union = unionMergeCoverage(coverageMaps, countStrategy)
+    result.coverageMap = union.coverageMap
+    result.branchMismatches = union.branchMismatches
+    result.contributions = union.contributions.map((counts, index) => ({ input: processed[index].name, ...counts }))
+    logger.info('Union merge: items added by each input')
+    for (const { input, statements, functions, branches } of result.contributions) {
+      logger.info(`  ${input}: ${statements} statement(s), ${functions} function(s), ${branches} branch(es)`)
+    }
+  } else {
+    const smart = smartMergeCoverageWithReport(coverageMaps, preferUnion, countStrategy)
+    result.coverageMap = smart.coverageMap
+    result.branchMismatches = smart.branchMismatches
+    result.structureSources = smart.structureSources
+  }
+
+  const root = relativeTo ?? process.cwd()
+  if (result.branchMismatches.length > 0) {
+    logger.info(
+      `Branch shapes: ${result.branchMismatches.length} branch(es) differ between inputs, only matching arms were merged`
+    )
+    const shape = ({ type, arms }: BranchShape): string => `${type}, ${arms} arm(s)`
+    for (const { file, line, merged, input } of result.branchMismatches) {
+      logger.info(`  ${toRelativePath(root, file)}:${line} (${shape(merged)} vs ${shape(input)})`)
+    }
+  }
+
+  // Files no test loaded still count, with everything uncovered
+  if (all) {
+    const untested = addUntestedFiles(result.coverageMap, { include, exclude, root: relativeTo })
+    result.coverageMap = untested.coverageMap
+    result.untestedFiles = untested.added.map((file) => toRelativePath(root, file))
+    logger.info(`All files: added ${untested.added.length} file(s) no input loaded, with zero coverage`)
+    for (const file of untested.failed) {
+      logger.info(`  Could not parse: ${toRelativePath(root, file)}`)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Totals of a coverage map. Metrics without any item have a pct of 100, as in
+ * istanbul's own summaries, including for an empty map.
+ */
+export function summarizeCoverage(coverageMap: CoverageMapData): CoverageSummary {
+  const summary = libCoverage.createCoverageMap(coverageMap).getCoverageSummary()
+  const metric = ({ covered, total, pct }: { covered: number; total: number; pct: number }) => ({
+    covered,
+    total,
+    pct: typeof pct === 'number' ? pct : 100,
+  })
+
+  return {
+    totalFiles: Object.keys(coverageMap).length,
+    statements: metric(summary.statements),
+    branches: metric(summary.branches),
+    functions: metric(summary.functions),
+    lines: metric(summary.lines),
+  }
+}
+
+/**
+ * Format the summary block printed after a merge.
+ */
+export function formatCoverageSummary(summary: CoverageSummary): string {
+  const row = (label: string, { covered, total, pct }: CoverageSummary['statements']): string =>
+    `${label.padEnd(13)}: ${pct.toFixed(2)}% ( ${covered}/${total} )`
+
+  return [
+    '=============================== Coverage summary ===============================',
+    row('Statements', summary.statements),
+    row('Branches', summary.branches),
+    row('Functions', summary.functions),
+    row('Lines', summary.lines),
+    '================================================================================',
+  ].join('\n')
+}
+
+/**
+ * Write coverage-final.json and the istanbul reports for a merged coverage map.
+ * A reporter that fails is reported through the logger and doesn't stop the others.
+ */
+export function writeCoverageReports(coverageMap: CoverageMapData, options: WriteReportsOptions): void {
+  const {
+    outputDir,
+    reporters = ['json', 'lcov', 'html'],
+    reporterOptions = {},
+    relativeTo,
+    logger = consoleLogger,
+  } = options
+
+  const outputData = relativeTo !== undefined ? relativizeCoveragePaths(coverageMap, relativeTo) : coverageMap
+  const map = libCoverage.createCoverageMap(outputData)
+
+  // Create output directory
+  if (!existsSync(outputDir)) {
+    mkdirSync(outputDir, { recursive: true })
+  }
+
+  // Write coverage-final.json
+  writeFileSync(join(outputDir, 'coverage-final.json'), JSON.stringify(map.toJSON(), null, 2))
+
+  // Generate reports
+  const context = libReport.createContext({
+    dir: outputDir,
+    defaultSummarizer: 'nested',
+    coverageMap: map,
+  })
+
+  // Use Set to avoid duplicate reporters
+  const uniqueReporters = [...new Set(reporters)]
+  for (const reporter of uniqueReporters) {
+    try {
+      const name = reporter as keyof reports.ReportOptions
+      const report = reports.create(name, reporterOptions[name])
+      report.execute(context)
+    } catch (error) {
+      logger.warn(`Warning: Failed to generate ${reporter} report: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+}
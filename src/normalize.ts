@@ -1,10 +1,46 @@
 import { readFileSync, existsSync } from 'fs'
+import { extname } from 'path'
+import { parse, type ParserPlugin } from '@babel/parser'
 import type { CoverageMapData, FileCoverageData } from 'istanbul-lib-coverage'
 
+/** Directives stripped when `NormalizeOptions.directives` is not set */
+export const DEFAULT_DIRECTIVES = ['use client', 'use server']
+
+/**
+ * A statement of the source file, as passed to strip rule predicates.
+ */
+export interface SourceStatement {
+  /** Absolute path of the source file */
+  file: string
+  /** Source text of the statement */
+  text: string
+  start: { line: number; column: number }
+  end: { line: number; column: number }
+}
+
+export interface StripRule {
+  /** Name the removed statements are counted under */
+  name: string
+  /**
+   * Statements to remove: a regex (or regex source string) tested against the
+   * statement's source text, or a predicate (programmatic API only)
+   */
+  match: RegExp | string | ((statement: SourceStatement) => boolean)
+}
+
+export interface NormalizeOptions {
+  /** Directive prologues to strip (default: 'use client' and 'use server'); replaces the defaults */
+  directives?: string[]
+  /** Additional statements to strip, e.g. banners added by build tools */
+  stripRules?: StripRule[]
+}
+
 export interface NormalizeResult {
   coverageMap: CoverageMapData
   importsRemoved: number
   directivesRemoved: number
+  /** Statements removed by each strip rule, keyed by rule name */
+  ruleCounts: Record<string, number>
 }
 
 /**
@@ -16,87 +52,253 @@ export interface NormalizeResult {
  * - Next.js bundled code has different statement structure
  *
  * By stripping these from all coverage sources, we can merge them accurately.
+ * Sources are parsed (TypeScript/JSX aware, including Vue/Svelte script blocks),
+ * and every statement inside an import, re-export or directive is removed.
  */
-export function normalizeCoverage(coverageMap: CoverageMapData): NormalizeResult {
+export function normalizeCoverage(coverageMap: CoverageMapData, options: NormalizeOptions = {}): NormalizeResult {
+  const directives = new Set(options.directives ?? DEFAULT_DIRECTIVES)
+  const rules = (options.stripRules ?? []).map(compileStripRule)
   let importsRemoved = 0
   let directivesRemoved = 0
+  const ruleCounts: Record<string, number> = Object.fromEntries(rules.map((rule) => [rule.name, 0]))
 
   for (const [filePath, fileData] of Object.entries(coverageMap)) {
-    const result = normalizeFileCoverage(filePath, fileData)
+    const result = normalizeFileCoverage(filePath, fileData, directives, rules)
     importsRemoved += result.importsRemoved
     directivesRemoved += result.directivesRemoved
+    for (const [name, count] of Object.entries(result.ruleCounts)) {
+      ruleCounts[name] += count
+    }
   }
 
-  return { coverageMap, importsRemoved, directivesRemoved }
+  return { coverageMap, importsRemoved, directivesRemoved, ruleCounts }
 }
 
-interface NormalizeFileResult {
-  importsRemoved: number
-  directivesRemoved: number
+type NormalizeFileResult = Omit<NormalizeResult, 'coverageMap'>
+
+interface CompiledStripRule {
+  name: string
+  test: (statement: SourceStatement) => boolean
+}
+
+function compileStripRule({ name, match }: StripRule): CompiledStripRule {
+  if (typeof match === 'function') {
+    return { name, test: match }
+  }
+  const regex = typeof match === 'string' ? new RegExp(match) : match
+  return { name, test: (statement) => regex.test(statement.text) }
+}
+
+type Position = { line: number; column: number | null | undefined }
+
+interface SourceRange {
+  start: Position
+  end: Position
+  type: 'import' | 'directive'
+}
+
+/** Module-level declarations that pull in other modules */
+const IMPORT_DECLARATIONS = new Set(['ImportDeclaration', 'ExportAllDeclaration', 'TSImportEqualsDeclaration'])
+
+/** AST node properties that never contain directives */
+const NON_CHILD_KEYS = new Set(['loc', 'directives', 'comments', 'leadingComments', 'trailingComments', 'innerComments', 'extra'])
+
+interface DirectiveContainer {
+  directives?: Array<{ value: { value: string }; loc?: { start: Position; end: Position } | null }>
+}
+
+type Program = ReturnType<typeof parse>['program']
+
+/** Single-file component formats whose `<script>` blocks are parsed separately */
+const SFC_EXTENSIONS = new Set(['.vue', '.svelte'])
+
+export interface ScriptBlock {
+  code: string
+  plugins: ParserPlugin[]
+  /** Position of the first character of `code` in the file */
+  startLine: number
+  startColumn: number
+}
+
+function parserPlugins(extension: string): ParserPlugin[] {
+  switch (extension) {
+    case '.ts':
+    case '.mts':
+    case '.cts':
+      return ['typescript']
+    case '.tsx':
+      return ['typescript', 'jsx']
+    default:
+      return ['jsx']
+  }
+}
+
+/**
+ * Split a source file into the scripts to parse: the whole file, or the `<script>`
+ * blocks of a Vue/Svelte component (TypeScript when `lang="ts"`).
+ */
+export function scriptBlocks(filePath: string, source: string): ScriptBlock[] {
+  const extension = extname(filePath)
+  if (!SFC_EXTENSIONS.has(extension)) {
+    return [{ code: source, plugins: parserPlugins(extension), startLine: 1, startColumn: 0 }]
+  }
+
+  const blocks: ScriptBlock[] = []
+  for (const match of source.matchAll(/<script\b([^>]*)>([\s\S]*?)<\/script>/g)) {
+    const lang = /\blang=["']?(\w+)/.exec(match[1])?.[1]
+    const offset = match.index + match[0].indexOf('>') + 1
+    const before = source.slice(0, offset).split('\n')
+    blocks.push({
+      code: match[2],
+      plugins: parserPlugins(lang ? `.${lang}` : '.js'),
+      startLine: before.length,
+      startColumn: before[before.length - 1].length,
+    })
+  }
+  return blocks
+}
+
+/**
+ * Parse a script, with positions relative to the whole file. Returns null when the
+ * script can't be parsed.
+ */
+export function parseScriptBlock({ code, plugins, startLine, startColumn }: ScriptBlock): Program | null {
+  try {
+    return parse(code, {
+      sourceType: 'unambiguous',
+      plugins,
+      startLine,
+      startColumn,
+      allowReturnOutsideFunction: true,
+      errorRecovery: true,
+    }).program
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Parse a script and collect the ranges of its import/re-export declarations and of
+ * the given directives. Returns null when the script can't be parsed.
+ */
+function findStripRanges(block: ScriptBlock, directives: Set<string>): SourceRange[] | null {
+  const program = parseScriptBlock(block)
+  if (!program) {
+    return null
+  }
+
+  const ranges: SourceRange[] = []
+
+  for (const node of program.body) {
+    const isReExport = node.type === 'ExportNamedDeclaration' && node.source != null
+    if ((IMPORT_DECLARATIONS.has(node.type) || isReExport) && node.loc) {
+      ranges.push({ start: node.loc.start, end: node.loc.end, type: 'import' })
+    }
+  }
+
+  // Directive prologues live on the program and on every function body
+  const visit = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(visit)
+      return
+    }
+    if (!node || typeof node !== 'object' || !('type' in node)) {
+      return
+    }
+    for (const directive of (node as DirectiveContainer).directives ?? []) {
+      if (directives.has(directive.value.value) && directive.loc) {
+        ranges.push({ start: directive.loc.start, end: directive.loc.end, type: 'directive' })
+      }
+    }
+    for (const [key, value] of Object.entries(node)) {
+      if (!NON_CHILD_KEYS.has(key)) {
+        visit(value)
+      }
+    }
+  }
+  visit(program)
+
+  return ranges
+}
+
+function comparePositions(a: Position, b: Position): number {
+  return a.line - b.line || (a.column ?? 0) - (b.column ?? 0)
+}
+
+/**
+ * Source text between two positions. Items without column data (e.g. from LCOV)
+ * cover their whole lines.
+ */
+function sliceSource(lines: string[], start: Position, end: Position): string {
+  const startColumn = start.column ?? 0
+  if (comparePositions(end, start) <= 0) {
+    return lines.slice(start.line - 1, end.line).join('\n').slice(startColumn)
+  }
+  if (start.line === end.line) {
+    return (lines[start.line - 1] ?? '').slice(startColumn, end.column ?? undefined)
+  }
+  return [
+    (lines[start.line - 1] ?? '').slice(startColumn),
+    ...lines.slice(start.line, end.line - 1),
+    (lines[end.line - 1] ?? '').slice(0, end.column ?? undefined),
+  ].join('\n')
 }
 
 function normalizeFileCoverage(
   filePath: string,
-  fileData: FileCoverageData
+  fileData: FileCoverageData,
+  directives: Set<string>,
+  rules: CompiledStripRule[]
 ): NormalizeFileResult {
-  let importsRemoved = 0
-  let directivesRemoved = 0
+  const result: NormalizeFileResult = {
+    importsRemoved: 0,
+    directivesRemoved: 0,
+    ruleCounts: Object.fromEntries(rules.map((rule) => [rule.name, 0])),
+  }
 
-  // Read source file to check line content
-  let lines: string[] = []
+  // Read and parse the source file
+  let source = ''
   try {
     if (existsSync(filePath)) {
-      lines = readFileSync(filePath, 'utf-8').split('\n')
+      source = readFileSync(filePath, 'utf-8')
     }
   } catch {
     // File not found, skip normalization for this file
-    return { importsRemoved: 0, directivesRemoved: 0 }
+    return result
   }
 
-  if (lines.length === 0) {
-    return { importsRemoved: 0, directivesRemoved: 0 }
+  if (!source) {
+    return result
   }
 
-  // Find statement keys to remove
-  const keysToRemove: Array<{ key: string; type: 'import' | 'directive' }> = []
+  const ranges = scriptBlocks(filePath, source).flatMap((block) => findStripRanges(block, directives) ?? [])
+  const lines = source.split('\n')
 
+  // Remove every statement that lies entirely inside an import or directive,
+  // or that matches a strip rule
   for (const [key, stmt] of Object.entries(fileData.statementMap || {})) {
-    const lineNum = stmt.start.line
-    const lineContent = lines[lineNum - 1]?.trim() || ''
-
-    // Check if line is an import statement
-    if (lineContent.startsWith('import ') || lineContent.startsWith('import{')) {
-      keysToRemove.push({ key, type: 'import' })
-    }
-    // Check if line is a 'use server' or 'use client' directive
-    else if (isDirective(lineContent)) {
-      keysToRemove.push({ key, type: 'directive' })
+    const range = ranges.find(
+      ({ start, end }) => comparePositions(stmt.start, start) >= 0 && comparePositions(stmt.end, end) <= 0
+    )
+    if (range) {
+      result[range.type === 'import' ? 'importsRemoved' : 'directivesRemoved']++
+    } else {
+      const statement: SourceStatement = {
+        file: filePath,
+        text: sliceSource(lines, stmt.start, stmt.end),
+        start: stmt.start,
+        end: stmt.end,
+      }
+      const rule = rules.find((rule) => rule.test(statement))
+      if (!rule) {
+        continue
+      }
+      result.ruleCounts[rule.name]++
     }
-  }
 
-  // Remove statements
-  for (const { key, type } of keysToRemove) {
     delete fileData.statementMap[key]
     delete fileData.s[key]
-    if (type === 'import') {
-      importsRemoved++
-    } else {
-      directivesRemoved++
-    }
   }
 
-  return { importsRemoved, directivesRemoved }
-}
-
-function isDirective(line: string): boolean {
-  return (
-    line === "'use server'" ||
-    line === '"use server"' ||
-    line === "'use server';" ||
-    line === '"use server";' ||
-    line === "'use client'" ||
-    line === '"use client"' ||
-    line === "'use client';" ||
-    line === '"use client";'
-  )
+  return result
 }
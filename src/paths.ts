@@ -0,0 +1,87 @@
+import { relative, sep } from 'path'
+import libCoverage, { type CoverageMapData, type FileCoverageData } from 'istanbul-lib-coverage'
+
+/**
+ * Path rewriting rule.
+ *
+ * - `from` as a string is a directory prefix: `/builds/app` rewrites `/builds/app/src/a.ts`
+ *   to `<to>/src/a.ts`, but leaves `/builds/application/a.ts` alone.
+ * - `from` as a RegExp is passed to `String.prototype.replace` with `to` as the replacement,
+ *   so `$1`-style references work.
+ */
+export interface PathMapping {
+  from: string | RegExp
+  to: string
+}
+
+/**
+ * Rewrite a path by applying every mapping in order.
+ */
+export function remapPath(path: string, mappings: PathMapping[]): string {
+  let result = path
+  for (const { from, to } of mappings) {
+    if (typeof from !== 'string') {
+      result = result.replace(from, to)
+      continue
+    }
+    const prefix = from.endsWith('/') ? from.slice(0, -1) : from
+    if (result === prefix || result.startsWith(`${prefix}/`)) {
+      const target = to.endsWith('/') ? to.slice(0, -1) : to
+      result = target + result.slice(prefix.length)
+    }
+  }
+  return result
+}
+
+/**
+ * Rewrite both the keys and the `path` of every file in a coverage map.
+ *
+ * Files that end up with the same path are merged, so rewriting never loses coverage.
+ */
+export function rewriteCoveragePaths(
+  coverageMap: CoverageMapData,
+  rewrite: (path: string) => string
+): CoverageMapData {
+  const result: CoverageMapData = {}
+
+  for (const [key, fileData] of Object.entries(coverageMap)) {
+    const data = fileData as FileCoverageData
+    const path = rewrite(key)
+    const rewritten: FileCoverageData = { ...data, path }
+
+    const existing = result[path]
+    if (existing) {
+      const merged = libCoverage.createFileCoverage(existing as FileCoverageData)
+      merged.merge(rewritten)
+      result[path] = merged.toJSON() as FileCoverageData
+    } else {
+      result[path] = rewritten
+    }
+  }
+
+  return result
+}
+
+/**
+ * Apply path mappings to a coverage map.
+ */
+export function remapCoveragePaths(coverageMap: CoverageMapData, mappings: PathMapping[]): CoverageMapData {
+  if (mappings.length === 0) {
+    return coverageMap
+  }
+  return rewriteCoveragePaths(coverageMap, (path) => remapPath(path, mappings))
+}
+
+/**
+ * Path of `path` relative to `root`, using forward slashes on every platform.
+ */
+export function toRelativePath(root: string, path: string): string {
+  return relative(root, path).split(sep).join('/')
+}
+
+/**
+ * Make every path in a coverage map relative to `root`, using forward slashes.
+ */
+export function relativizeCoveragePaths(coverageMap: CoverageMapData, root: string): CoverageMapData {
+  return rewriteCoveragePaths(coverageMap, (path) => toRelativePath(root, path))
+}
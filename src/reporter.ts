@@ -0,0 +1,125 @@
+import { resolve } from 'path'
+import type { Reporter, TestRunEndReason, Vitest } from 'vitest/node'
+import { loadConfig } from './config.js'
+import { mergeCoverage, type MergeOptions } from './index.js'
+import type { Logger } from './logger.js'
+import { discoverVitestInputs, type DiscoveryResult } from './discover.js'
+
+export interface CoverageMergeReporterOptions extends Partial<MergeOptions> {
+  /**
+   * Config file with the merge settings (default: the file the CLI would use).
+   * Options passed to the reporter override the config file.
+   */
+  configFile?: string
+}
+
+/**
+ * Inputs declared in the vitest configs of the project (see discoverVitestInputs),
+ * plus the coverage directory of the running config in case it wasn't among them.
+ */
+async function discoverInputs(vitest: Vitest, logger: Logger): Promise<DiscoveryResult> {
+  const { root, coverage } = vitest.config
+  const discovered = await discoverVitestInputs(undefined, root)
+  for (const { file, error } of discovered.failures) {
+    logger.warn(`Could not evaluate ${file}: ${error}`)
+  }
+
+  const current = resolve(root, coverage.reportsDirectory ?? 'coverage')
+  if (!discovered.inputs.some(({ dir }) => dir === current)) {
+    const config = vitest.vite?.config.configFile || root
+    discovered.inputs.push({
+      dir: current,
+      name: vitest.config.name || undefined,
+      config,
+      ...('include' in coverage && coverage.include?.length && { include: coverage.include }),
+      ...(coverage.exclude?.length && { exclude: coverage.exclude }),
+    })
+  }
+  for (const { dir, config } of discovered.inputs) {
+    logger.info(`Discovered: ${dir} (from ${config})`)
+  }
+  return discovered
+}
+
+/**
+ * Vitest reporter that merges coverage once a test run has written its coverage.
+ *
+ * Add it to the config of the last run (or the only run of a workspace) next to the
+ * other reporters. The merge uses the same settings as the CLI: the config file,
+ * overridden by the options given here. In watch mode, coverage is merged again
+ * after every rerun. Output goes through vitest's logger unless a `logger` is given.
+ *
+ * Without `inputDirs`, the coverage directories of the vitest configs in the project
+ * root and of the running config are merged.
+ *
+ * @example
+ * // vitest.config.ts
+ * import { coverageMergeReporter } from 'vitest-coverage-merge/reporter'
+ *
+ * export default defineConfig({
+ *   test: {
+ *     reporters: ['default', coverageMergeReporter({ outputDir: 'coverage/merged' })],
+ *   },
+ * })
+ */
+export function coverageMergeReporter(options: CoverageMergeReporterOptions = {}): Reporter {
+  const { configFile, ...overrides } = options
+  let vitest: Vitest
+  let pending = false
+
+  const merge = async (): Promise<void> => {
+    if (!pending) {
+      return
+    }
+    pending = false
+
+    const logger: Logger = {
+      info: (message) => vitest.logger.log(message),
+      log: (message) => vitest.logger.log(message),
+      warn: (message) => vitest.logger.warn(message),
+    }
+
+    try {
+      const { config } = await loadConfig(configFile)
+      const { inputDirs: configuredInputs = [], outputDir, ...mergeOptions } = { ...config, ...overrides }
+      if (!outputDir) {
+        throw new Error('outputDir is required (in the reporter options or the config file)')
+      }
+
+      vitest.logger.log('\nMerging coverage with vitest-coverage-merge')
+      let inputDirs = configuredInputs
+      if (inputDirs.length === 0) {
+        const discovered = await discoverInputs(vitest, logger)
+        // Each input keeps the coverage.include/exclude of its own config
+        inputDirs = discovered.inputs.map(({ config, ...input }) => input)
+      }
+
+      const result = await mergeCoverage({ logger, ...mergeOptions, inputDirs, outputDir })
+      vitest.logger.log(`\nMerged coverage written to: ${resolve(outputDir)}`)
+
+      const failed = [result.thresholds, result.diffCoverage, result.baseline].some((check) => check && !check.passed)
+      if (failed) {
+        process.exitCode = 1
+      }
+    } catch (error) {
+      vitest.logger.error('Error merging coverage:', error instanceof Error ? error.message : error)
+      process.exitCode = 1
+    }
+  }
+
+  return {
+    onInit(ctx: Vitest): void {
+      vitest = ctx
+      // vitest writes coverage after the run has been reported, so merge once it
+      // closes (single run) or goes back to watching (watch mode)
+      ctx.onClose(merge)
+    },
+
+    onTestRunEnd(_testModules, _unhandledErrors, reason: TestRunEndReason): void {
+      const { enabled, reportOnFailure } = vitest.config.coverage
+      pending = enabled && (reason === 'passed' || (reason === 'failed' && reportOnFailure))
+    },
+
+    onWatcherStart: () => merge(),
+  }
+}
@@ -1,72 +1,136 @@
 import type { CoverageMapData, FileCoverageData } from 'istanbul-lib-coverage'
+import { fileItems, matchItems, type MatchItem } from './matching.js'
 
 type Location = { start: { line: number; column: number | null } }
-type FnEntry = { loc: Location }
-type BranchEntry = { loc: Location }
-
-interface CoverageLookups {
-  stmts: Map<string, number>
-  stmtsByLine: Map<number, number>
-  fns: Map<string, number>
-  fnsByLine: Map<number, number>
-  branches: Map<string, number[]>
-  branchesByLine: Map<number, number[]>
+
+/**
+ * How the hit counts of matching items are combined:
+ * - `max`: highest count of any source (inputs that overlap, e.g. jsdom and browser runs)
+ * - `sum`: total count across sources (disjoint shards of one suite, hotspot analysis)
+ * - `binary`: 1 when any source hit the item, 0 otherwise
+ */
+export type CountStrategy = 'max' | 'sum' | 'binary'
+
+export const COUNT_STRATEGIES: CountStrategy[] = ['max', 'sum', 'binary']
+
+export const combineCounts: Record<CountStrategy, (a: number, b: number) => number> = {
+  max: (a, b) => Math.max(a, b),
+  sum: (a, b) => a + b,
+  binary: (a, b) => (a > 0 || b > 0 ? 1 : 0),
 }
 
 /**
- * Create a unique key for a location (exact match)
+ * Type and number of arms of a branch.
  */
-function locationKey(loc: Location): string {
-  return `${loc.start.line}:${loc.start.column}`
+export interface BranchShape {
+  type: string
+  arms: number
 }
 
 /**
- * Get the line number from a location (for line-based fallback matching)
+ * Counts of one source, transferred onto the items of a target structure.
+ * Items the source has no hits for are omitted.
  */
-function lineKey(loc: Location): number {
-  return loc.start.line
+export interface ProjectedCounts {
+  s: Record<string, number>
+  f: Record<string, number>
+  /** Arm counts in the target's arm order; arms without a counterpart count 0 */
+  b: Record<string, number[]>
+  /** Target branches whose source counterpart has a different shape, with the source's shape */
+  unreconciledBranches: Record<string, BranchShape>
 }
 
+type BranchData = FileCoverageData['branchMap'][string]
+
 /**
- * Build lookup maps from file coverage data for efficient merging.
+ * Ranges of a branch's arms, or null when they don't describe every arm.
  */
-function buildLookups(data: FileCoverageData): CoverageLookups {
-  const stmts = new Map<string, number>()
-  const stmtsByLine = new Map<number, number>()
-  for (const [key, loc] of Object.entries(data.statementMap || {}) as [string, Location][]) {
-    const count = data.s[key] || 0
+function armItems(branch: BranchData, armCount: number): MatchItem[] | null {
+  const locations = branch.locations ?? []
+  if (locations.length !== armCount || locations.some((loc) => !loc?.start || !loc?.end)) {
+    return null
+  }
+  return locations.map((loc, index) => ({ key: String(index), loc }))
+}
+
+/**
+ * Map the arm counts of a source branch onto the arms of the matching target branch.
+ *
+ * Arms are paired by range; without arm locations, branches with the same number of
+ * arms are paired by index. The shapes are unreconciled when an arm on either side is
+ * left without a counterpart, in which case only the paired arms carry counts over.
+ */
+export function projectBranchArms(
+  target: BranchData,
+  targetArmCount: number,
+  source: BranchData,
+  sourceCounts: number[]
+): { counts: number[]; reconciled: boolean } {
+  const targetArms = armItems(target, targetArmCount)
+  const sourceArms = armItems(source, sourceCounts.length)
+
+  let pairs = new Map<string, string>()
+  if (targetArms && sourceArms) {
+    pairs = matchItems(targetArms, sourceArms)
+  } else if (targetArmCount === sourceCounts.length) {
+    pairs = new Map(sourceCounts.map((_, i) => [String(i), String(i)]))
+  }
+
+  const counts = Array.from({ length: targetArmCount }, (_, i) => {
+    const sourceArm = pairs.get(String(i))
+    return sourceArm === undefined ? 0 : sourceCounts[Number(sourceArm)] || 0
+  })
+  const reconciled = pairs.size === targetArmCount && pairs.size === sourceCounts.length
+  return { counts, reconciled }
+}
+
+/**
+ * Look up the source's counts for every statement, function and branch of the target,
+ * pairing items by range overlap (and by name for functions) with matchItems.
+ */
+function projectCounts(target: FileCoverageData, source: FileCoverageData): ProjectedCounts {
+  const counts: ProjectedCounts = { s: {}, f: {}, b: {}, unreconciledBranches: {} }
+  const targetItems = fileItems(target)
+  const sourceItems = fileItems(source)
+
+  const statements = matchItems(targetItems.statements, sourceItems.statements)
+  for (const [key, sourceKey] of statements) {
+    const count = source.s[sourceKey] || 0
     if (count > 0) {
-      stmts.set(locationKey(loc), count)
-      const line = lineKey(loc)
-      stmtsByLine.set(line, Math.max(stmtsByLine.get(line) || 0, count))
+      counts.s[key] = count
     }
   }
 
-  const fns = new Map<string, number>()
-  const fnsByLine = new Map<number, number>()
-  for (const [key, fn] of Object.entries(data.fnMap || {}) as [string, FnEntry][]) {
-    const count = data.f[key] || 0
+  const functions = matchItems(targetItems.functions, sourceItems.functions)
+  for (const [key, sourceKey] of functions) {
+    const count = source.f[sourceKey] || 0
     if (count > 0) {
-      fns.set(locationKey(fn.loc), count)
-      const line = lineKey(fn.loc)
-      fnsByLine.set(line, Math.max(fnsByLine.get(line) || 0, count))
+      counts.f[key] = count
     }
   }
 
-  const branches = new Map<string, number[]>()
-  const branchesByLine = new Map<number, number[]>()
-  for (const [key, branch] of Object.entries(data.branchMap || {}) as [string, BranchEntry][]) {
-    const counts = data.b[key] || []
-    if (counts.some((c: number) => c > 0)) {
-      branches.set(locationKey(branch.loc), counts)
-      const line = lineKey(branch.loc)
-      if (!branchesByLine.has(line)) {
-        branchesByLine.set(line, counts)
-      }
+  const branches = matchItems(targetItems.branches, sourceItems.branches)
+  for (const [key, sourceKey] of branches) {
+    const sourceBranch = source.branchMap[sourceKey]
+    const sourceCounts = source.b[sourceKey] || []
+    const arms = projectBranchArms(target.branchMap[key], (target.b[key] || []).length, sourceBranch, sourceCounts)
+    if (!arms.reconciled) {
+      counts.unreconciledBranches[key] = { type: sourceBranch.type, arms: sourceCounts.length }
+    }
+    if (arms.counts.some((c: number) => c > 0)) {
+      counts.b[key] = arms.counts
     }
   }
 
-  return { stmts, stmtsByLine, fns, fnsByLine, branches, branchesByLine }
+  return counts
+}
+
+/**
+ * Transfer the counts of a source file coverage onto the structure of a (merged) target,
+ * using the same matching as the merge itself.
+ */
+export function projectFileCoverage(target: FileCoverageData, source: FileCoverageData): ProjectedCounts {
+  return projectCounts(target, source)
 }
 
 /**
@@ -166,21 +230,23 @@ function selectBestSource(coverages: FileCoverageData[], preferUnion: boolean =
  * @param coverages - Array of file coverages to merge
  * @param preferUnion - If true (default), prefer source with more items; if false, prefer source without directives
  */
-function mergeFileCoverages(coverages: FileCoverageData[], preferUnion: boolean = true): FileCoverageData {
+function mergeFileCoverages(
+  coverages: FileCoverageData[],
+  preferUnion: boolean = true,
+  countStrategy: CountStrategy = 'max'
+): { data: FileCoverageData; structure: number; branchMismatches: BranchMismatch[] } {
   if (coverages.length === 0) {
     throw new Error('No coverages to merge')
   }
   if (coverages.length === 1) {
-    return JSON.parse(JSON.stringify(coverages[0]))
+    return { data: copyFileCoverage(coverages[0], countStrategy), structure: 0, branchMismatches: [] }
   }
 
   // Select best structure based on preferUnion setting
   const bestSource = selectBestSource(coverages, preferUnion)
 
-  // Build lookup maps for all coverages
-  const allLookups = coverages.map(buildLookups)
-
-  // Start with best structure (deep copy)
+  // Start with best structure (deep copy) and zero counts; every source, including
+  // the structure source, is folded in below
   const merged: FileCoverageData = {
     path: coverages[0].path,
     statementMap: JSON.parse(JSON.stringify(bestSource.statementMap)),
@@ -190,51 +256,89 @@ function mergeFileCoverages(coverages: FileCoverageData[], preferUnion: boolean
     branchMap: JSON.parse(JSON.stringify(bestSource.branchMap)),
     b: JSON.parse(JSON.stringify(bestSource.b)),
   }
-
-  // Merge statement counts from all sources
-  for (const [key, loc] of Object.entries(merged.statementMap) as [string, Location][]) {
-    const locKey = locationKey(loc)
-    const line = lineKey(loc)
-    let maxCount = merged.s[key] || 0
-    for (const lookup of allLookups) {
-      const count = lookup.stmts.get(locKey) ?? lookup.stmtsByLine.get(line)
-      if (count !== undefined && count > maxCount) {
-        maxCount = count
-      }
+  resetCounts(merged)
+
+  // Merge counts from all sources item by item
+  const combine = combineCounts[countStrategy]
+  const branchMismatches: BranchMismatch[] = []
+  for (const counts of coverages.map((cov) => projectCounts(merged, cov))) {
+    for (const [key, count] of Object.entries(counts.s)) {
+      merged.s[key] = combine(merged.s[key] || 0, count)
+    }
+    for (const [key, count] of Object.entries(counts.f)) {
+      merged.f[key] = combine(merged.f[key] || 0, count)
+    }
+    for (const [key, branchCounts] of Object.entries(counts.b)) {
+      const currentCounts = merged.b[key] || []
+      merged.b[key] = currentCounts.map((c: number, i: number) => combine(c, branchCounts[i] || 0))
+    }
+    for (const [key, input] of Object.entries(counts.unreconciledBranches)) {
+      const branch = merged.branchMap[key]
+      branchMismatches.push({
+        file: merged.path,
+        line: branch.loc.start.line,
+        merged: { type: branch.type, arms: merged.b[key].length },
+        input,
+      })
     }
-    merged.s[key] = maxCount
   }
 
-  // Merge function counts from all sources
-  for (const [key, fn] of Object.entries(merged.fnMap) as [string, FnEntry][]) {
-    const locKey = locationKey(fn.loc)
-    const line = lineKey(fn.loc)
-    let maxCount = merged.f[key] || 0
-    for (const lookup of allLookups) {
-      const count = lookup.fns.get(locKey) ?? lookup.fnsByLine.get(line)
-      if (count !== undefined && count > maxCount) {
-        maxCount = count
-      }
-    }
-    merged.f[key] = maxCount
+  return { data: merged, structure: coverages.indexOf(bestSource), branchMismatches }
+}
+
+/**
+ * Set every statement, function and branch arm count to zero.
+ */
+function resetCounts(data: FileCoverageData): void {
+  for (const key of Object.keys(data.s)) {
+    data.s[key] = 0
   }
+  for (const key of Object.keys(data.f)) {
+    data.f[key] = 0
+  }
+  for (const key of Object.keys(data.b)) {
+    data.b[key] = data.b[key].map(() => 0)
+  }
+}
 
-  // Merge branch counts from all sources
-  for (const [key, branch] of Object.entries(merged.branchMap) as [string, BranchEntry][]) {
-    const locKey = locationKey(branch.loc)
-    const line = lineKey(branch.loc)
-    for (const lookup of allLookups) {
-      const counts = lookup.branches.get(locKey) ?? lookup.branchesByLine.get(line)
-      if (counts !== undefined) {
-        const currentCounts = merged.b[key] || []
-        merged.b[key] = currentCounts.map((c: number, i: number) =>
-          Math.max(c, counts[i] || 0)
-        )
-      }
+/**
+ * Deep copy a file coverage that has nothing to be merged with. Counts are kept
+ * as they are, except for the binary strategy, which reduces them to 0/1.
+ */
+function copyFileCoverage(data: FileCoverageData, countStrategy: CountStrategy): FileCoverageData {
+  const copy: FileCoverageData = JSON.parse(JSON.stringify(data))
+  if (countStrategy === 'binary') {
+    const toBinary = (count: number): number => (count > 0 ? 1 : 0)
+    for (const key of Object.keys(copy.s)) {
+      copy.s[key] = toBinary(copy.s[key])
+    }
+    for (const key of Object.keys(copy.f)) {
+      copy.f[key] = toBinary(copy.f[key])
+    }
+    for (const key of Object.keys(copy.b)) {
+      copy.b[key] = copy.b[key].map(toBinary)
     }
   }
+  return copy
+}
 
-  return merged
+/**
+ * A branch whose arms differ between the merged structure and an input (e.g. a ternary
+ * with 2 arms in one environment and a logical expression with 3 arms in another).
+ * Only the arms that could be paired by range carry counts over.
+ */
+export interface BranchMismatch {
+  file: string
+  line: number
+  merged: BranchShape
+  input: BranchShape
+}
+
+export interface SmartMergeResult {
+  coverageMap: CoverageMapData
+  branchMismatches: BranchMismatch[]
+  /** Index of the input whose structure each file was built on, keyed by file */
+  structureSources: Record<string, number>
 }
 
 /**
@@ -248,14 +352,27 @@ function mergeFileCoverages(coverages: FileCoverageData[], preferUnion: boolean
  *
  * @param coverageMaps - Array of coverage maps to merge
  * @param preferUnion - If true (default), prefer source with more items; if false, prefer source without directives
+ * @param countStrategy - How hit counts of matching items are combined (default: max)
  */
-export function smartMergeCoverage(coverageMaps: CoverageMapData[], preferUnion: boolean = true): CoverageMapData {
-  if (coverageMaps.length === 0) {
-    return {}
-  }
+export function smartMergeCoverage(
+  coverageMaps: CoverageMapData[],
+  preferUnion: boolean = true,
+  countStrategy: CountStrategy = 'max'
+): CoverageMapData {
+  return smartMergeCoverageWithReport(coverageMaps, preferUnion, countStrategy).coverageMap
+}
 
-  if (coverageMaps.length === 1) {
-    return JSON.parse(JSON.stringify(coverageMaps[0]))
+/**
+ * Like smartMergeCoverage, but also reports the branches whose shapes couldn't be
+ * reconciled across inputs and which input each file's structure came from.
+ */
+export function smartMergeCoverageWithReport(
+  coverageMaps: CoverageMapData[],
+  preferUnion: boolean = true,
+  countStrategy: CountStrategy = 'max'
+): SmartMergeResult {
+  if (coverageMaps.length === 0) {
+    return { coverageMap: {}, branchMismatches: [], structureSources: {} }
   }
 
   // Collect all files from all maps
@@ -267,18 +384,18 @@ export function smartMergeCoverage(coverageMaps: CoverageMapData[], preferUnion:
   }
 
   const merged: CoverageMapData = {}
+  const branchMismatches: BranchMismatch[] = []
+  const structureSources: Record<string, number> = {}
 
   for (const file of allFiles) {
-    const fileCoverages = coverageMaps
-      .filter((m) => file in m)
-      .map((m) => m[file] as FileCoverageData)
+    const inputs = coverageMaps.flatMap((m, index) => (file in m ? [index] : []))
+    const fileCoverages = inputs.map((index) => coverageMaps[index][file] as FileCoverageData)
 
-    if (fileCoverages.length === 1) {
-      merged[file] = JSON.parse(JSON.stringify(fileCoverages[0]))
-    } else {
-      merged[file] = mergeFileCoverages(fileCoverages, preferUnion)
-    }
+    const result = mergeFileCoverages(fileCoverages, preferUnion, countStrategy)
+    merged[file] = result.data
+    structureSources[file] = inputs[result.structure]
+    branchMismatches.push(...result.branchMismatches)
   }
 
-  return merged
+  return { coverageMap: merged, branchMismatches, structureSources }
 }
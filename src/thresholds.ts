@@ -0,0 +1,131 @@
+import libCoverage, { type CoverageMap, type CoverageMapData, type CoverageSummary } from 'istanbul-lib-coverage'
+import picomatch from 'picomatch'
+import { formatTable } from './format.js'
+import { toRelativePath } from './paths.js'
+
+export type CoverageMetric = 'statements' | 'branches' | 'functions' | 'lines'
+
+export const COVERAGE_METRICS: CoverageMetric[] = ['statements', 'branches', 'functions', 'lines']
+
+export type ThresholdMetrics = Partial<Record<CoverageMetric, number>>
+
+export interface GlobThresholds extends ThresholdMetrics {
+  perFile?: boolean
+}
+
+export interface ThresholdOptions extends ThresholdMetrics {
+  /** Check every file individually instead of the aggregated totals */
+  perFile?: boolean
+  /**
+   * Per-glob overrides, e.g. `{ 'src/core/**': { lines: 90 } }`.
+   * Globs are matched against paths relative to `root`. Files matched by a
+   * glob are checked against that glob only and excluded from the global check.
+   * A glob inherits `perFile` unless it sets its own.
+   */
+  globs?: Record<string, GlobThresholds>
+}
+
+export interface ThresholdFailure {
+  /** 'global', the glob pattern, or the file path (relative to root) in perFile mode */
+  scope: string
+  metric: CoverageMetric
+  actual: number
+  expected: number
+}
+
+export interface ThresholdResult {
+  passed: boolean
+  failures: ThresholdFailure[]
+}
+
+/**
+ * Check merged coverage against minimum percentages.
+ *
+ * Mirrors the semantics of vitest's `coverage.thresholds`, but runs on the
+ * merged map so each metric reflects every input, not a single vitest run.
+ */
+export function checkThresholds(
+  coverageMap: CoverageMapData,
+  thresholds: ThresholdOptions,
+  root: string = process.cwd()
+): ThresholdResult {
+  const map = libCoverage.createCoverageMap(coverageMap)
+  const files = map.files()
+  const toRelative = (file: string): string => toRelativePath(root, file)
+
+  const failures: ThresholdFailure[] = []
+  const globbedFiles = new Set<string>()
+
+  for (const [pattern, globThresholds] of Object.entries(thresholds.globs || {})) {
+    const isMatch = picomatch(pattern, { dot: true })
+    const matched = files.filter((file) => isMatch(toRelative(file)))
+    for (const file of matched) {
+      globbedFiles.add(file)
+    }
+    const { perFile = thresholds.perFile } = globThresholds
+    failures.push(...checkFiles(map, matched, { ...globThresholds, perFile }, pattern, toRelative))
+  }
+
+  const globalFiles = files.filter((file) => !globbedFiles.has(file))
+  failures.push(...checkFiles(map, globalFiles, thresholds, 'global', toRelative))
+
+  return { passed: failures.length === 0, failures }
+}
+
+function checkFiles(
+  map: CoverageMap,
+  files: string[],
+  thresholds: GlobThresholds,
+  scope: string,
+  toRelative: (file: string) => string
+): ThresholdFailure[] {
+  if (files.length === 0 || !COVERAGE_METRICS.some((metric) => thresholds[metric] !== undefined)) {
+    return []
+  }
+
+  if (thresholds.perFile) {
+    return files.flatMap((file) =>
+      checkSummary(map.fileCoverageFor(file).toSummary(), thresholds, toRelative(file))
+    )
+  }
+
+  const summary = libCoverage.createCoverageSummary()
+  for (const file of files) {
+    summary.merge(map.fileCoverageFor(file).toSummary())
+  }
+  return checkSummary(summary, thresholds, scope)
+}
+
+function checkSummary(
+  summary: CoverageSummary,
+  thresholds: ThresholdMetrics,
+  scope: string
+): ThresholdFailure[] {
+  const failures: ThresholdFailure[] = []
+  for (const metric of COVERAGE_METRICS) {
+    const expected = thresholds[metric]
+    if (expected === undefined) {
+      continue
+    }
+    const actual = summary[metric].pct
+    if (actual < expected) {
+      failures.push({ scope, metric, actual, expected })
+    }
+  }
+  return failures
+}
+
+/**
+ * Format threshold failures as a plain-text table.
+ */
+export function formatThresholdFailures(failures: ThresholdFailure[]): string {
+  return formatTable(
+    ['Scope', 'Metric', 'Actual', 'Threshold'],
+    failures.map((failure) => [
+      failure.scope,
+      failure.metric,
+      `${failure.actual.toFixed(2)}%`,
+      `${failure.expected}%`,
+    ])
+  )
+}
@@ -0,0 +1,130 @@
+import type { CoverageMapData, FileCoverageData } from 'istanbul-lib-coverage'
+import { fileItems, matchItems, type MatchItem } from './matching.js'
+import { combineCounts, projectBranchArms, type BranchMismatch, type CountStrategy } from './smart-merge.js'
+
+/**
+ * How the structure (statementMap/fnMap/branchMap) of a file is built:
+ * - `best`: take the structure of one input and copy the counts of the others onto it
+ * - `union`: every item that exists in any input, paired across inputs like `best` does
+ */
+export type MergeMode = 'best' | 'union'
+
+export const MERGE_MODES: MergeMode[] = ['best', 'union']
+
+/** Number of items an input added to the merged structure */
+export interface ItemCounts {
+  statements: number
+  functions: number
+  branches: number
+}
+
+export interface UnionMergeResult {
+  coverageMap: CoverageMapData
+  /** Items first seen in each input, in input order */
+  contributions: ItemCounts[]
+  /** Branches found with a different arm layout in a later input */
+  branchMismatches: BranchMismatch[]
+}
+
+/**
+ * Pair the items of an input with the items merged so far, the way smartMergeCoverage
+ * pairs them, so column drift between runs or line-only LCOV items don't add the same
+ * item twice.
+ *
+ * @returns input key -> merged key
+ */
+function pairWithMerged(merged: MatchItem[], source: MatchItem[]): Map<string, string> {
+  return new Map([...matchItems(merged, source)].map(([mergedKey, sourceKey]) => [sourceKey, mergedKey]))
+}
+
+function addFileCoverage(
+  data: FileCoverageData,
+  source: FileCoverageData,
+  contribution: ItemCounts,
+  combine: (a: number, b: number) => number,
+  branchMismatches: BranchMismatch[]
+): void {
+  const mergedItems = fileItems(data)
+  const sourceItems = fileItems(source)
+  const statements = pairWithMerged(mergedItems.statements, sourceItems.statements)
+  const functions = pairWithMerged(mergedItems.functions, sourceItems.functions)
+  const branches = pairWithMerged(mergedItems.branches, sourceItems.branches)
+
+  for (const [sourceKey, loc] of Object.entries(source.statementMap)) {
+    let key = statements.get(sourceKey)
+    if (key === undefined) {
+      key = String(Object.keys(data.statementMap).length)
+      data.statementMap[key] = JSON.parse(JSON.stringify(loc))
+      data.s[key] = 0
+      contribution.statements++
+    }
+    data.s[key] = combine(data.s[key], source.s[sourceKey] || 0)
+  }
+
+  for (const [sourceKey, fn] of Object.entries(source.fnMap)) {
+    let key = functions.get(sourceKey)
+    if (key === undefined) {
+      key = String(Object.keys(data.fnMap).length)
+      data.fnMap[key] = JSON.parse(JSON.stringify(fn))
+      data.f[key] = 0
+      contribution.functions++
+    }
+    data.f[key] = combine(data.f[key], source.f[sourceKey] || 0)
+  }
+
+  for (const [sourceKey, branch] of Object.entries(source.branchMap)) {
+    let key = branches.get(sourceKey)
+    if (key === undefined) {
+      key = String(Object.keys(data.branchMap).length)
+      data.branchMap[key] = JSON.parse(JSON.stringify(branch))
+      data.b[key] = (source.b[sourceKey] || []).map(() => 0)
+      contribution.branches++
+    }
+    const sourceCounts = source.b[sourceKey] || []
+    const arms = projectBranchArms(data.branchMap[key], data.b[key].length, branch, sourceCounts)
+    if (!arms.reconciled) {
+      branchMismatches.push({
+        file: data.path,
+        line: branch.loc.start.line,
+        merged: { type: data.branchMap[key].type, arms: data.b[key].length },
+        input: { type: branch.type, arms: sourceCounts.length },
+      })
+    }
+    data.b[key] = data.b[key].map((count, i) => combine(count, arms.counts[i]))
+  }
+}
+
+/**
+ * Merge coverage maps into the union of their structures.
+ *
+ * Unlike smartMergeCoverage, no item is dropped: statements, functions and branches
+ * are paired with the items merged so far using the same overlap and name matching,
+ * items no earlier input has are added, and keys are renumbered per file. Branch arms
+ * are paired by range as well. Counts of paired items are combined with `countStrategy`.
+ */
+export function unionMergeCoverage(
+  coverageMaps: CoverageMapData[],
+  countStrategy: CountStrategy = 'max'
+): UnionMergeResult {
+  const combine = combineCounts[countStrategy]
+  const contributions = coverageMaps.map(() => ({ statements: 0, functions: 0, branches: 0 }))
+  const files = new Map<string, FileCoverageData>()
+  const branchMismatches: BranchMismatch[] = []
+
+  coverageMaps.forEach((coverageMap, index) => {
+    for (const [file, source] of Object.entries(coverageMap) as [string, FileCoverageData][]) {
+      let data = files.get(file)
+      if (!data) {
+        data = { path: source.path, statementMap: {}, s: {}, fnMap: {}, f: {}, branchMap: {}, b: {} }
+        files.set(file, data)
+      }
+      addFileCoverage(data, source, contributions[index], combine, branchMismatches)
+    }
+  })
+
+  const merged: CoverageMapData = {}
+  for (const [file, data] of files) {
+    merged[file] = data
+  }
+  return { coverageMap: merged, contributions, branchMismatches }
+}
@@ -0,0 +1,224 @@
+import { readFileSync } from 'fs'
+import { extname, resolve } from 'path'
+import type { CoverageMapData, FileCoverageData, Range } from 'istanbul-lib-coverage'
+import { globSync } from 'tinyglobby'
+import { canonicalizePath } from './canonicalize.js'
+import { parseScriptBlock, scriptBlocks } from './normalize.js'
+
+export interface UntestedFilesOptions {
+  /** Globs of the source files the report should cover, relative to `root` */
+  include: string[]
+  /** Globs of files to leave out */
+  exclude?: string[]
+  /** Directory the globs are relative to (default: current directory) */
+  root?: string
+}
+
+export interface UntestedFilesResult {
+  coverageMap: CoverageMapData
+  /** Files that no input loaded, added with zero counts */
+  added: string[]
+  /** Files that could not be parsed and were left out */
+  failed: string[]
+}
+
+/** Files that can be parsed into statements, functions and branches */
+const SOURCE_EXTENSIONS = new Set(['.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.mts', '.cts', '.vue', '.svelte'])
+
+/** Never scanned: dependencies and type declarations */
+const ALWAYS_EXCLUDED = ['**/node_modules/**', '**/*.d.ts', '**/*.d.mts', '**/*.d.cts']
+
+type Position = { line: number; column: number }
+
+interface AstNode {
+  type: string
+  loc?: { start: Position; end: Position } | null
+  [key: string]: unknown
+}
+
+/** Statements that get a counter, as in istanbul-lib-instrument */
+const STATEMENT_TYPES = new Set([
+  'ExpressionStatement',
+  'BreakStatement',
+  'ContinueStatement',
+  'DebuggerStatement',
+  'ReturnStatement',
+  'ThrowStatement',
+  'TryStatement',
+  'IfStatement',
+  'ForStatement',
+  'ForInStatement',
+  'ForOfStatement',
+  'WhileStatement',
+  'DoWhileStatement',
+  'SwitchStatement',
+  'WithStatement',
+  'LabeledStatement',
+])
+
+const FUNCTION_TYPES = new Set([
+  'FunctionDeclaration',
+  'FunctionExpression',
+  'ArrowFunctionExpression',
+  'ObjectMethod',
+  'ClassMethod',
+  'ClassPrivateMethod',
+])
+
+/** AST node properties that never contain code */
+const NON_CHILD_KEYS = new Set(['loc', 'comments', 'leadingComments', 'trailingComments', 'innerComments', 'extra'])
+
+function isNode(value: unknown): value is AstNode {
+  return typeof value === 'object' && value !== null && 'type' in value
+}
+
+function toRange({ start, end }: { start: Position; end: Position }): Range {
+  return { start: { line: start.line, column: start.column }, end: { line: end.line, column: end.column } }
+}
+
+/** Operands of a chain of logical expressions, e.g. `a`, `b` and `c` in `a && (b || c)` */
+function logicalLeaves(node: AstNode): AstNode[] {
+  if (node.type !== 'LogicalExpression') {
+    return [node]
+  }
+  return [...logicalLeaves(node.left as AstNode), ...logicalLeaves(node.right as AstNode)]
+}
+
+/**
+ * Build coverage data with zero counts for a source file that no test loaded.
+ *
+ * The file is parsed (TypeScript/JSX aware, Vue/Svelte `<script>` blocks) and its
+ * statements, functions and branches are laid out the way istanbul-lib-instrument
+ * does, so the file weighs in the totals roughly as much as it would once tested.
+ * Returns null when the file can't be parsed.
+ */
+export function emptyFileCoverage(filePath: string, source: string): FileCoverageData | null {
+  const data: FileCoverageData = { path: filePath, statementMap: {}, s: {}, fnMap: {}, f: {}, branchMap: {}, b: {} }
+
+  const addStatement = (loc: AstNode['loc']): void => {
+    if (loc) {
+      const key = String(Object.keys(data.statementMap).length)
+      data.statementMap[key] = toRange(loc)
+      data.s[key] = 0
+    }
+  }
+
+  const addBranch = (type: string, loc: Range, locations: Range[]): void => {
+    const key = String(Object.keys(data.branchMap).length)
+    data.branchMap[key] = { type, loc, locations, line: loc.start.line }
+    data.b[key] = locations.map(() => 0)
+  }
+
+  const addFunction = (node: AstNode, loc: Range): void => {
+    const key = String(Object.keys(data.fnMap).length)
+    const id = isNode(node.id) ? node.id : isNode(node.key) && node.key.type === 'Identifier' ? node.key : undefined
+    const decl = id?.loc
+      ? toRange(id.loc)
+      : { start: loc.start, end: { line: loc.start.line, column: loc.start.column + 1 } }
+    const name = typeof id?.name === 'string' ? id.name : `(anonymous_${key})`
+    data.fnMap[key] = { name, decl, loc, line: loc.start.line }
+    data.f[key] = 0
+  }
+
+  const visit = (node: unknown, parent?: AstNode): void => {
+    if (Array.isArray(node)) {
+      node.forEach((child) => visit(child, parent))
+      return
+    }
+    if (!isNode(node)) {
+      return
+    }
+
+    if (node.loc) {
+      const loc = toRange(node.loc)
+      if (STATEMENT_TYPES.has(node.type)) {
+        addStatement(node.loc)
+      }
+      if (FUNCTION_TYPES.has(node.type)) {
+        addFunction(node, loc)
+        // Expression bodies of arrow functions count as a return statement
+        if (isNode(node.body) && node.body.type !== 'BlockStatement') {
+          addStatement(node.body.loc)
+        }
+      }
+
+      switch (node.type) {
+        case 'VariableDeclarator':
+        case 'ClassProperty':
+        case 'ClassPrivateProperty': {
+          const value = node.type === 'VariableDeclarator' ? node.init : node.value
+          if (isNode(value)) {
+            addStatement(value.loc)
+          }
+          break
+        }
+        case 'IfStatement': {
+          const alternate = isNode(node.alternate) && node.alternate.loc ? toRange(node.alternate.loc) : loc
+          addBranch('if', loc, [loc, alternate])
+          break
+        }
+        case 'ConditionalExpression':
+          addBranch('cond-expr', loc, [node.consequent, node.alternate].filter(isNode).map((arm) => toRange(arm.loc!)))
+          break
+        case 'LogicalExpression':
+          // Nested logical expressions are arms of the outermost one
+          if (parent?.type !== 'LogicalExpression') {
+            addBranch('binary-expr', loc, logicalLeaves(node).map((leaf) => toRange(leaf.loc!)))
+          }
+          break
+        case 'SwitchStatement':
+          addBranch('switch', loc, (node.cases as AstNode[]).map((switchCase) => toRange(switchCase.loc!)))
+          break
+        case 'AssignmentPattern':
+          if (isNode(node.right) && node.right.loc) {
+            addBranch('default-arg', loc, [toRange(node.right.loc)])
+          }
+          break
+      }
+    }
+
+    for (const [key, value] of Object.entries(node)) {
+      if (!NON_CHILD_KEYS.has(key)) {
+        visit(value, node)
+      }
+    }
+  }
+
+  const programs = scriptBlocks(filePath, source).map(parseScriptBlock)
+  if (programs.some((program) => program === null)) {
+    return null
+  }
+  programs.forEach((program) => visit(program))
+  return data
+}
+
+/**
+ * Add the source files matching `include` that are missing from the coverage map,
+ * with every statement, function and branch at zero, so totals cover the whole
+ * codebase instead of only the files some test loaded.
+ *
+ * node_modules and type declarations are never added, and neither are files without
+ * any statement or function (e.g. type-only modules).
+ */
+export function addUntestedFiles(coverageMap: CoverageMapData, options: UntestedFilesOptions): UntestedFilesResult {
+  const { include, exclude = [], root = process.cwd() } = options
+  const result: UntestedFilesResult = { coverageMap: { ...coverageMap }, added: [], failed: [] }
+
+  const files = globSync(include, { cwd: root, absolute: true, dot: true, ignore: [...ALWAYS_EXCLUDED, ...exclude] })
+  for (const file of files.map((match) => resolve(match)).sort()) {
+    const path = canonicalizePath(file)
+    if (result.coverageMap[path] || !SOURCE_EXTENSIONS.has(extname(file))) {
+      continue
+    }
+
+    const data = emptyFileCoverage(path, readFileSync(file, 'utf-8'))
+    if (!data) {
+      result.failed.push(path)
+    } else if (Object.keys(data.statementMap).length > 0 || Object.keys(data.fnMap).length > 0) {
+      result.coverageMap[path] = data
+      result.added.push(path)
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,122 @@
+import { readFileSync, readdirSync, existsSync } from 'fs'
+import { join } from 'path'
+import { fileURLToPath } from 'url'
+import type { Profiler } from 'inspector'
+import libCoverage, { type CoverageMapData } from 'istanbul-lib-coverage'
+import v8ToIstanbul from 'v8-to-istanbul'
+import { consoleLogger, type Logger } from './logger.js'
+
+/**
+ * Raw V8 coverage dump as written by NODE_V8_COVERAGE.
+ */
+export interface V8CoverageDump {
+  result: Profiler.ScriptCoverage[]
+}
+
+const V8_DUMP_PATTERN = /^coverage-.*\.json$/
+
+/**
+ * Whether a file name looks like a raw V8 coverage dump (coverage-*.json),
+ * excluding the Istanbul reports that share the prefix.
+ */
+export function isV8CoverageFileName(name: string): boolean {
+  return V8_DUMP_PATTERN.test(name) && name !== 'coverage-final.json' && name !== 'coverage-summary.json'
+}
+
+/**
+ * List raw V8 coverage dump files (coverage-*.json) in a directory.
+ */
+export function findV8CoverageFiles(dir: string): string[] {
+  if (!existsSync(dir)) {
+    return []
+  }
+  return readdirSync(dir)
+    .filter(isV8CoverageFileName)
+    .sort()
+    .map((name) => join(dir, name))
+}
+
+/**
+ * Whether the file on disk is the code V8 ran. The script-level function of a dump spans
+ * the whole code that ran, so code that was transformed on the fly (tsx, Vite, ...)
+ * shows up as a length mismatch; its offsets would land on the wrong source positions.
+ */
+function matchesSource(script: Profiler.ScriptCoverage, source: string): boolean {
+  const [scriptLevel] = script.functions
+  const range = scriptLevel?.ranges[0]
+  if (scriptLevel?.functionName !== '' || range?.startOffset !== 0) {
+    return true
+  }
+  return range.endOffset === source.replace(/^\uFEFF/, '').length
+}
+
+function isV8CoverageDump(data: unknown): data is V8CoverageDump {
+  return typeof data === 'object' && data !== null && Array.isArray((data as V8CoverageDump).result)
+}
+
+/**
+ * Convert raw V8 script coverage to Istanbul coverage data.
+ *
+ * Only scripts loaded from local files (file:// URLs or absolute paths) are converted;
+ * node internals and remote URLs are skipped, and so are scripts whose file on disk is
+ * not the code that ran (with a warning). Sourcemaps referenced by a script's
+ * sourceMappingURL comment are applied when they are available on disk, so the
+ * result is keyed by the original source files.
+ */
+export async function convertV8Coverage(
+  scripts: Profiler.ScriptCoverage[],
+  logger: Logger = consoleLogger
+): Promise<CoverageMapData> {
+  const map = libCoverage.createCoverageMap({})
+
+  for (const script of scripts) {
+    const filePath = scriptUrlToPath(script.url)
+    if (!filePath || !existsSync(filePath)) {
+      continue
+    }
+    if (!matchesSource(script, readFileSync(filePath, 'utf-8'))) {
+      logger.warn(`Warning: Skipped V8 coverage for ${filePath}: the file differs from the code that ran`)
+      continue
+    }
+
+    const converter = v8ToIstanbul(filePath, 0)
+    try {
+      await converter.load()
+      converter.applyCoverage(script.functions)
+      map.merge(converter.toIstanbul())
+    } catch (error) {
+      logger.warn(
+        `Warning: Failed to convert V8 coverage for ${filePath}: ${error instanceof Error ? error.message : error}`
+      )
+    } finally {
+      converter.destroy()
+    }
+  }
+
+  return map.toJSON()
+}
+
+/**
+ * Load and convert all raw V8 coverage dumps in the given files.
+ * Files that are not V8 dumps are ignored.
+ */
+export async function loadV8Coverage(files: string[], logger: Logger = consoleLogger): Promise<CoverageMapData> {
+  const scripts: Profiler.ScriptCoverage[] = []
+  for (const file of files) {
+    const data: unknown = JSON.parse(readFileSync(file, 'utf-8'))
+    if (isV8CoverageDump(data)) {
+      scripts.push(...data.result)
+    }
+  }
+  return convertV8Coverage(scripts, logger)
+}
+
+function scriptUrlToPath(url: string): string | null {
+  if (url.startsWith('file://')) {
+    return fileURLToPath(url)
+  }
+  if (url.startsWith('/')) {
+    return url
+  }
+  return null
+}
@@ -0,0 +1,140 @@
+import { unwatchFile, watchFile, type Stats } from 'fs'
+import { extname, join } from 'path'
+import { COVERAGE_INPUT_FILES, findCoverageInput } from './inputs.js'
+import { COVERAGE_METRICS, type CoverageMetric } from './thresholds.js'
+
+export interface WatchOptions {
+  /** Wait until the files have stopped changing for this many milliseconds (default: 500) */
+  debounce?: number
+  /** How often the files are checked, in milliseconds (default: 250) */
+  interval?: number
+  /** Also call `onChange` (with no changed files) right away */
+  immediate?: boolean
+}
+
+export interface Watcher {
+  /** Call `onChange` (with the files changed so far) after the debounce, as if a file had changed */
+  refresh(): void
+  close(): void
+}
+
+/** Covered/total/pct of each metric, as in the merge result */
+export type CoverageTotals = Record<CoverageMetric, { covered: number; total: number; pct: number }>
+
+/**
+ * The file to watch for an input: its coverage file when it has one, otherwise the
+ * coverage-final.json it is expected to get (or the path itself when it names a file).
+ */
+export function inputWatchPath(path: string): string {
+  const input = findCoverageInput(path)
+  if (input) {
+    return input.file
+  }
+  return extname(path) ? path : join(path, COVERAGE_INPUT_FILES[0].name)
+}
+
+/**
+ * Call `onChange` with the changed files once they have stopped changing for
+ * `debounce` milliseconds.
+ *
+ * Files are polled rather than watched with fs.watch, so files that don't exist yet
+ * or are deleted and written again (vitest cleans its coverage directory when a run
+ * starts) keep being tracked. Calls never overlap: changes made while `onChange` is
+ * running are batched into the next call.
+ */
+export function watchFiles(
+  files: string[],
+  onChange: (changed: string[]) => void | Promise<void>,
+  options: WatchOptions = {}
+): Watcher {
+  const { debounce = 500, interval = 250, immediate = false } = options
+  const changed = new Set<string>()
+  let timer: NodeJS.Timeout | undefined
+  let running = false
+  let closed = false
+  let refreshRequested = false
+
+  const flush = async (): Promise<void> => {
+    timer = undefined
+    running = true
+    refreshRequested = false
+    const batch = [...changed]
+    changed.clear()
+    try {
+      await onChange(batch)
+    } finally {
+      running = false
+      if ((changed.size > 0 || refreshRequested) && !closed) {
+        schedule()
+      }
+    }
+  }
+
+  const schedule = (): void => {
+    clearTimeout(timer)
+    timer = setTimeout(flush, debounce)
+  }
+
+  const listeners = new Map<string, (current: Stats, previous: Stats) => void>()
+  for (const file of new Set(files)) {
+    const listener = (current: Stats, previous: Stats): void => {
+      // Reading a file updates its atime, which also triggers the listener
+      if (current.mtimeMs === previous.mtimeMs && current.size === previous.size) {
+        return
+      }
+      changed.add(file)
+      if (!running) {
+        schedule()
+      }
+    }
+    listeners.set(file, listener)
+    watchFile(file, { interval, persistent: true }, listener)
+  }
+
+  if (immediate) {
+    running = true
+    setImmediate(flush)
+  }
+
+  return {
+    refresh(): void {
+      refreshRequested = true
+      if (!running && !closed) {
+        schedule()
+      }
+    },
+    close(): void {
+      closed = true
+      clearTimeout(timer)
+      for (const [file, listener] of listeners) {
+        unwatchFile(file, listener)
+      }
+    },
+  }
+}
+
+function formatChange(delta: number, digits = 0): string {
+  const sign = delta > 0 ? '+' : ''
+  return `${sign}${delta.toFixed(digits)}`
+}
+
+/**
+ * Describe how the totals changed between two merges, e.g.
+ * `Statements +1.20% (+6 covered, +8 total), Branches 0.00% (0 covered, 0 total), ...`.
+ */
+export function formatSummaryDelta(previous: CoverageTotals, current: CoverageTotals): string {
+  const labels: Record<CoverageMetric, string> = {
+    statements: 'Statements',
+    branches: 'Branches',
+    functions: 'Functions',
+    lines: 'Lines',
+  }
+  return COVERAGE_METRICS.map((metric) => {
+    const before = previous[metric]
+    const after = current[metric]
+    const pct = formatChange(after.pct - before.pct, 2)
+    const covered = formatChange(after.covered - before.covered)
+    const total = formatChange(after.total - before.total)
+    return `${labels[metric]} ${pct}% (${covered} covered, ${total} total)`
+  }).join(', ')
+}